@@ -0,0 +1,62 @@
+/**
+ * Cancellation helpers
+ *
+ * ## Overview
+ * Small utilities for honouring an optional `AbortSignal` in client calls,
+ * chains, batches and animations. Cancellation always surfaces as a
+ * `StreamDeckError` with code `ABORTED`, so callers can tell it apart from
+ * network failures.
+ *
+ * ## Example
+ * ```ts
+ * const controller = new AbortController();
+ * const pending = client.button(pos).fadeTo('#000000', 2000).apply({ signal: controller.signal });
+ * controller.abort(); // pending rejects with code 'ABORTED'
+ * ```
+ */
+
+import { StreamDeckError } from './types';
+
+/**
+ * Create the error thrown when an operation is cancelled
+ */
+export function abortError(signal?: AbortSignal): StreamDeckError {
+  return new StreamDeckError('Operation aborted', 'ABORTED', undefined, signal?.reason);
+}
+
+/**
+ * Whether an error is a cancellation through the caller's signal. A bare DOM
+ * `AbortError` doesn't count: transports also abort on their own timeout.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof StreamDeckError && error.code === 'ABORTED';
+}
+
+/**
+ * Throw `ABORTED` if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortError(signal);
+}
+
+/**
+ * Wait for `ms`, rejecting with `ABORTED` as soon as the signal fires
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -10,16 +10,17 @@
  * ```ts
  * import { Animator } from './animator';
  * import { pulse } from './animations';
- * const id = pulse(animator, { page:1,row:0,column:0 }, { bgcolor:'#000' }, { duration:800 });
+ * const pulsing = pulse(animator, { page:1,row:0,column:0 }, { bgcolor:'#000' }, { duration:800 });
+ * pulsing.stop({ restore: true });
  * ```
  */
 import { Animator } from './animator';
-import type { ButtonPosition, ButtonStyle } from './types';
-import { StreamDeckClient } from './client';
+import { AnimationTimeline } from './timeline';
+import type { ButtonPosition, ButtonStyle, ControlSurface } from './types';
 
 /**
  * Convenience animation presets that wrap Animator.
- * These are thin helpers that create animations and return an id you can stop.
+ * These are thin helpers that create animations and return their handle.
  */
 
 export function pulse(
@@ -67,15 +68,14 @@ export function rainbowSweep(
   });
 }
 
-// Convenience: start a set of presets across a grid
-export async function partyMode(client: StreamDeckClient, animator: Animator, positions: ButtonPosition[]) {
-  // grab a default style for each position and start staggered rainbows
-  let i = 0;
-  for (const pos of positions) {
-    const base: ButtonStyle = { bgcolor: '#000000', color: '#FFFFFF', size: 12 };
-    rainbowSweep(animator, pos, base, { duration: 2000 + (i % 6) * 300, loop: true });
-    i++;
-    // stagger starts slightly
-    await new Promise(r => setTimeout(r, 80));
-  }
+// Convenience: staggered rainbows across a grid. Returns the playing timeline
+// so callers can pause, reverse or stop it.
+export async function partyMode(client: ControlSurface, animator: Animator, positions: ButtonPosition[]) {
+  const base: ButtonStyle = { bgcolor: '#000000', color: '#FFFFFF', size: 12 };
+  const timeline = new AnimationTimeline(animator);
+  positions.forEach((pos, i) => {
+    timeline.add(i * 80, pos, { type: 'rainbow', duration: 2000 + (i % 6) * 300, loop: true }, base);
+  });
+  timeline.play();
+  return timeline;
 }
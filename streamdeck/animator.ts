@@ -8,12 +8,39 @@
  * ## Notes
  * - Starts/stops its internal timer automatically when animations exist.
  * - Coalesces style updates per tick to reduce API calls.
+ * - Animations on the same key are composited by `layer` and `blend` into
+ *   one frame, so an alert can sit on top of an ambient loop and the loop
+ *   shows again when the alert ends.
+ * - Other frame producers (e.g. `AnimationTimeline`) can `attach()` to share
+ *   the timer and the per-tick batch.
  */
 import { StreamDeckClient } from './client';
-import type { ButtonPosition, ButtonStyle } from './types';
+import type { ButtonPosition, ButtonStyle, ControlSurface } from './types';
+import { StreamDeckError } from './types';
+import { resolveEasing } from './easing';
+import type { Easing, EasingFunction } from './easing';
+import { buttonStyleErrors } from './style';
+import { createTextSampler } from './text-animation';
+import type { CounterOptions, MarqueeOptions, TextAnimationSpec, TickerOptions, TypewriterOptions } from './text-animation';
 
 // Small helper types
-type AnimationType = 'flash' | 'fade' | 'rainbow';
+type AnimationType = 'flash' | 'fade' | 'rainbow' | 'keyframes' | 'marquee' | 'typewriter' | 'counter';
+
+// How a layer combines with the animation layers below it on the same key:
+// 'override' replaces their style, 'add' adds its bgcolor/color channels to
+// theirs (brightening), 'mask' multiplies them (white lets the layers below
+// through, black hides them)
+export type BlendMode = 'override' | 'add' | 'mask';
+
+export const BLEND_MODES: BlendMode[] = ['override', 'add', 'mask'];
+
+// One stop of a keyframe animation. `at` is the stop's place in the
+// animation from 0 (start) to 1 (end); `easing` shapes the way to the next stop.
+export interface Keyframe {
+  at: number;
+  style: ButtonStyle;
+  easing?: Easing; // default: 'linear'
+}
 
 export interface AnimationOptions {
   // common
@@ -32,34 +59,120 @@ export interface AnimationOptions {
   // rainbow
   saturation?: number; // 0-1
   lightness?: number; // 0-1
+
+  // compositing with other animations on the same key
+  layer?: number; // higher layers sit on top (default 0)
+  blend?: BlendMode; // how this layer combines with the layers below (default 'override')
+
+  // stop the animation when this signal fires
+  signal?: AbortSignal;
+
+  // called when a non-looping animation has sent its last frame
+  onComplete?: () => void;
+}
+
+export interface KeyframeOptions extends Omit<AnimationOptions, 'flashColor' | 'intervals' | 'fromColor' | 'toColor' | 'saturation' | 'lightness'> {
+  keyframes: Keyframe[];
+}
+
+// An animation described as data, e.g. one clip of an AnimationTimeline
+export type AnimationSpec =
+  | ({ type: 'flash' | 'fade' | 'rainbow' } & Omit<AnimationOptions, 'signal' | 'onComplete' | 'layer' | 'blend'>)
+  | ({ type: 'keyframes' } & Omit<KeyframeOptions, 'signal' | 'onComplete' | 'layer' | 'blend'>)
+  | DistributiveOmit<TextAnimationSpec, 'signal' | 'onComplete' | 'layer' | 'blend'>;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// Computes the style of an animation at a point in time
+export interface AnimationSampler {
+  duration: number;
+  loop: boolean;
+  sample(elapsed: number): ButtonStyle; // elapsed ms since the animation started
+}
+
+// Something that hands the animator frames on every tick, e.g. an AnimationTimeline.
+// Its frames are not layered; they are sent after the composited animations.
+export interface FrameSource {
+  // Styles to send for this tick; null once the source is done (it is then detached)
+  frame(now: number): Array<{ position: ButtonPosition; style: ButtonStyle }> | null;
+  // Called when the animator drops the source (stopAll(), or frame() returned null)
+  onDetach?(): void;
+}
+
+// How an animation ended: it ran to its end, or it was stopped first
+export type AnimationEnd = 'completed' | 'stopped';
+
+export interface StopAnimationOptions {
+  restore?: boolean; // send the animation's originalStyle again instead of keeping the last frame
+}
+
+// Returned by createFlash/createFade/createRainbow/createKeyframes
+export interface AnimationHandle {
+  readonly id: string;
+  readonly position: ButtonPosition;
+  // Settles once the last frame is sent or the animation is stopped (loops only settle on stop)
+  readonly finished: Promise<AnimationEnd>;
+  pause(): void; // hold the current frame
+  resume(): void;
+  seek(ms: number): void; // jump to a time; a paused animation draws that frame
+  setSpeed(speed: number): void; // playback rate, 1 = normal
+  stop(options?: StopAnimationOptions): void;
+  getTime(): number; // ms into the animation
+  isPaused(): boolean;
+  isActive(): boolean; // false once finished or stopped
+}
+
+type ResolvedOptions = Required<Omit<AnimationOptions, 'signal' | 'onComplete' | 'layer' | 'blend'>>;
+
+// A keyframe with its style merged over every earlier stop
+interface ResolvedKeyframe {
+  at: number;
+  style: ButtonStyle;
+  easing: EasingFunction;
 }
 
 interface InternalAnimation {
   id: string;
   type: AnimationType;
   position: ButtonPosition;
-  options: Required<AnimationOptions>;
-  startTime: number;
+  sampler: AnimationSampler;
   originalStyle: ButtonStyle;
-  lastSentBg?: string;
+  time: number; // animation ms at `resumedAt`
+  resumedAt: number; // Date.now() when the clock was last rebased
+  speed: number;
+  paused: boolean;
+  layer: number;
+  blend: BlendMode;
+  onComplete?: () => void;
+  end: (how: AnimationEnd) => void; // settles the handle's `finished`
 }
 
+type StyleOperation = { action: 'style'; position: ButtonPosition; data: ButtonStyle };
+
+// Batch errors the animator doesn't log
+const QUIET_ERRORS = ['REQUEST_DROPPED', 'CIRCUIT_OPEN', 'ABORTED'];
+
 /**
  * Animator
  * - Runs a single timer at configurable FPS
- * - Interpolates colors for flash/fade/rainbow
+ * - Interpolates colors for flash/fade/rainbow and keyframe stops
  * - Coalesces updates per-frame and calls client.executeBatch once per frame
- * - Avoids sending updates if color hasn't meaningfully changed
+ * - Composites animations that share a key by layer, then avoids sending
+ *   a key whose frame hasn't changed since the last tick
+ * - Gives every animation its own clock (pause, seek, speed) via its handle
  */
 export class Animator {
-  private client: StreamDeckClient;
+  private client: ControlSurface;
   private fps: number;
   private tickInterval = 0; // ms
   private timer?: ReturnType<typeof setInterval>;
   private animations = new Map<string, InternalAnimation>();
+  private sources = new Set<FrameSource>();
+  private lastSent = new Map<string, string>(); // per key: JSON of the last composited frame
   private idCounter = 1;
+  private frames = new AbortController(); // signal for outgoing frames, aborted by stopAll()
 
-  constructor(client: StreamDeckClient, fps = 15) {
+  constructor(client: ControlSurface, fps = 15) {
     this.client = client;
     this.fps = Math.max(1, Math.min(60, Math.round(fps)));
     this.tickInterval = Math.round(1000 / this.fps);
@@ -77,165 +190,499 @@ export class Animator {
   }
 
   clear() {
+    const stopped = [...this.animations.values()];
     this.animations.clear();
+    stopped.forEach(anim => anim.end('stopped'));
   }
 
   createFlash(position: ButtonPosition, originalStyle: ButtonStyle, options: AnimationOptions = {}) {
-    const opts: Required<AnimationOptions> = {
-      duration: options.duration ?? 1000,
-      loop: options.loop ?? false,
-      fps: options.fps ?? this.fps,
-      flashColor: options.flashColor ?? '#FFFFFF',
-      intervals: options.intervals ?? 4,
-      fromColor: options.fromColor ?? '#000000',
-      toColor: options.toColor ?? '#000000',
-      saturation: options.saturation ?? 1,
-      lightness: options.lightness ?? 0.5
-    };
+    return this.create('flash', position, originalStyle, options);
+  }
 
-    const id = `anim-${this.idCounter++}`;
-    this.animations.set(id, {
-      id,
-      type: 'flash',
-      position,
-      options: opts,
-      startTime: Date.now(),
-      originalStyle
-    });
+  createFade(position: ButtonPosition, originalStyle: ButtonStyle, options: AnimationOptions = {}) {
+    return this.create('fade', position, originalStyle, options);
+  }
 
-    this.start();
-    return id;
+  createRainbow(position: ButtonPosition, originalStyle: ButtonStyle, options: AnimationOptions = {}) {
+    return this.create('rainbow', position, originalStyle, options);
   }
 
-  createFade(position: ButtonPosition, originalStyle: ButtonStyle, options: AnimationOptions = {}) {
-    const opts: Required<AnimationOptions> = {
-      duration: options.duration ?? 1000,
-      loop: options.loop ?? false,
-      fps: options.fps ?? this.fps,
-      flashColor: options.flashColor ?? '#FFFFFF',
-      intervals: options.intervals ?? 1,
-      fromColor: options.fromColor ?? (originalStyle.bgcolor ?? '#000000'),
-      toColor: options.toColor ?? '#000000',
-      saturation: options.saturation ?? 1,
-      lightness: options.lightness ?? 0.5
-    };
+  /**
+   * Animate through keyframe stops. `bgcolor` and `color` are blended and a
+   * numeric `size` is interpolated between stops using each stop's easing;
+   * other properties switch when their stop is reached. Stops must be sorted
+   * by `at` (0..1 of `duration`). Throws `INVALID_KEYFRAMES` for malformed
+   * stops.
+   *
+   * @example
+   * animator.createKeyframes(pos, { text: 'GOAL' }, {
+   *   duration: 1200,
+   *   keyframes: [
+   *     { at: 0, style: { bgcolor: '#000000', size: 14 }, easing: 'easeOutElastic' },
+   *     { at: 0.6, style: { bgcolor: '#FFD700', size: 28 }, easing: 'easeInCubic' },
+   *     { at: 1, style: { bgcolor: '#000000', size: 14 } }
+   *   ]
+   * });
+   */
+  createKeyframes(position: ButtonPosition, originalStyle: ButtonStyle, options: KeyframeOptions) {
+    return this.create('keyframes', position, originalStyle, options);
+  }
 
-    const id = `anim-${this.idCounter++}`;
-    this.animations.set(id, {
-      id,
-      type: 'fade',
-      position,
-      options: opts,
-      startTime: Date.now(),
-      originalStyle
+  /**
+   * Scroll `text` through the key, `width` characters at a time (loops by
+   * default). Text that already fits is shown as it is.
+   */
+  createMarquee(position: ButtonPosition, originalStyle: ButtonStyle, options: MarqueeOptions) {
+    return this.create('marquee', position, originalStyle, options);
+  }
+
+  /**
+   * Reveal `text` one character at a time (120 ms per character by default)
+   */
+  createTypewriter(position: ButtonPosition, originalStyle: ButtonStyle, options: TypewriterOptions) {
+    return this.create('typewriter', position, originalStyle, options);
+  }
+
+  /**
+   * Count from `from` to `to`, formatting each value with `formatNumber`
+   */
+  createCounter(position: ButtonPosition, originalStyle: ButtonStyle, options: CounterOptions) {
+    return this.create('counter', position, originalStyle, options);
+  }
+
+  /**
+   * Scroll one message across several keys in order, `width` characters per
+   * key. The returned handle controls every key at once.
+   *
+   * @example
+   * animator.createTicker(generateButtonGrid(1, 1, 8), { bgcolor: '#000000' }, { text: 'FINAL: TEAM A 16 - 12 TEAM B' });
+   */
+  createTicker(positions: ButtonPosition[], originalStyle: ButtonStyle, options: TickerOptions): AnimationHandle {
+    if (positions.length === 0) {
+      throw new StreamDeckError('Invalid text animation: a ticker needs at least one position', 'INVALID_ANIMATION');
+    }
+    const { onComplete, ...marquee } = options;
+    const width = marquee.width ?? 5;
+    const text = String(marquee.text ?? '');
+    // Enough trailing space that the message fully leaves the row before it comes back
+    const gap = Math.max(marquee.gap ?? 3, width * positions.length - Array.from(text).length);
+    const handles = positions.map((position, index) =>
+      this.create('marquee', position, originalStyle, { ...marquee, text, width, gap, offset: index * width })
+    );
+    const group = this.group(handles);
+    group.finished.then(end => {
+      if (end === 'completed') onComplete?.();
     });
+    return group;
+  }
+
+  private create(
+    type: AnimationType,
+    position: ButtonPosition,
+    originalStyle: ButtonStyle,
+    options: AnimationOptions | KeyframeOptions | MarqueeOptions | TypewriterOptions | CounterOptions
+  ): AnimationHandle {
+    const { signal, onComplete, layer = 0, blend = 'override', ...spec } = options;
+    if (!Number.isFinite(layer)) throw new RangeError(`Animation layer must be a number, got ${layer}`);
+    if (!BLEND_MODES.includes(blend)) {
+      throw new StreamDeckError(`Unknown blend mode "${blend}" (expected one of ${BLEND_MODES.join(', ')})`, 'INVALID_BLEND');
+    }
+    const sampler = createSampler({ ...spec, type } as AnimationSpec, originalStyle);
+    let end!: (how: AnimationEnd) => void;
+    const finished = new Promise<AnimationEnd>(resolve => (end = resolve));
+
+    const anim: InternalAnimation = {
+      id: `anim-${this.idCounter++}`,
+      type,
+      position,
+      sampler,
+      originalStyle,
+      time: 0,
+      resumedAt: Date.now(),
+      speed: 1,
+      paused: false,
+      layer,
+      blend,
+      onComplete,
+      end
+    };
+    this.register(anim, signal);
+    return this.handle(anim, finished);
+  }
 
+  /**
+   * Store an animation, start the timer and stop it again when `signal` fires
+   */
+  private register(anim: InternalAnimation, signal?: AbortSignal) {
+    if (signal?.aborted) {
+      anim.end('stopped');
+      return;
+    }
+    this.animations.set(anim.id, anim);
+    signal?.addEventListener('abort', () => this.stopAnimation(anim.id), { once: true });
     this.start();
-    return id;
   }
 
-  createRainbow(position: ButtonPosition, originalStyle: ButtonStyle, options: AnimationOptions = {}) {
-    const opts: Required<AnimationOptions> = {
-      duration: options.duration ?? 3000,
-      loop: options.loop ?? true,
-      fps: options.fps ?? this.fps,
-      flashColor: options.flashColor ?? '#FFFFFF',
-      intervals: options.intervals ?? 1,
-      fromColor: options.fromColor ?? '#000000',
-      toColor: options.toColor ?? '#000000',
-      saturation: options.saturation ?? 1,
-      lightness: options.lightness ?? 0.5
+  /**
+   * One handle for animations that run in lockstep
+   */
+  private group(handles: AnimationHandle[]): AnimationHandle {
+    return {
+      id: `group-${this.idCounter++}`,
+      position: handles[0].position,
+      finished: Promise.all(handles.map(handle => handle.finished)).then(ends => (ends.includes('stopped') ? 'stopped' : 'completed')),
+      pause: () => handles.forEach(handle => handle.pause()),
+      resume: () => handles.forEach(handle => handle.resume()),
+      seek: ms => handles.forEach(handle => handle.seek(ms)),
+      setSpeed: speed => handles.forEach(handle => handle.setSpeed(speed)),
+      stop: options => handles.forEach(handle => handle.stop(options)),
+      getTime: () => handles[0].getTime(),
+      isPaused: () => handles[0].isPaused(),
+      isActive: () => handles.some(handle => handle.isActive())
     };
+  }
 
-    const id = `anim-${this.idCounter++}`;
-    this.animations.set(id, {
-      id,
-      type: 'rainbow',
-      position,
-      options: opts,
-      startTime: Date.now(),
-      originalStyle
-    });
+  private handle(anim: InternalAnimation, finished: Promise<AnimationEnd>): AnimationHandle {
+    const rebase = () => {
+      const now = Date.now();
+      anim.time = elapsedOf(anim, now);
+      anim.resumedAt = now;
+    };
+    const isActive = () => this.animations.get(anim.id) === anim;
+
+    return {
+      id: anim.id,
+      position: anim.position,
+      finished,
+      pause: () => {
+        if (anim.paused) return;
+        rebase();
+        anim.paused = true;
+      },
+      resume: () => {
+        if (!anim.paused) return;
+        anim.resumedAt = Date.now();
+        anim.paused = false;
+      },
+      seek: ms => {
+        const { duration, loop } = anim.sampler;
+        anim.time = Math.max(0, loop ? ms : Math.min(ms, duration));
+        anim.resumedAt = Date.now();
+      },
+      setSpeed: speed => {
+        if (!Number.isFinite(speed) || speed <= 0) throw new RangeError(`Animation speed must be a positive number, got ${speed}`);
+        rebase();
+        anim.speed = speed;
+      },
+      stop: options => this.stopAnimation(anim.id, options),
+      getTime: () => elapsedOf(anim, Date.now()),
+      isPaused: () => anim.paused,
+      isActive
+    };
+  }
 
-    this.start();
-    return id;
+  /**
+   * Stop an animation by id or handle. With `restore: true` the button gets
+   * the animation's original style back instead of keeping its last frame
+   * (unless other animations on the key keep running). Ticker handles stop
+   * every key.
+   */
+  stopAnimation(animation: string | AnimationHandle, options: StopAnimationOptions = {}) {
+    if (typeof animation !== 'string') return animation.stop(options);
+    const id = animation;
+    const anim = this.animations.get(id);
+    if (anim) {
+      this.animations.delete(id);
+      if (options.restore && !this.isAnimating(anim.position)) this.send([restoreOperation(anim)]);
+      anim.end('stopped');
+    }
+    if (this.animations.size === 0 && this.sources.size === 0) this.stop();
   }
 
-  stopAnimation(id: string) {
-    this.animations.delete(id);
-    if (this.animations.size === 0) this.stop();
+  private isAnimating(position: ButtonPosition): boolean {
+    const key = positionKey(position);
+    return [...this.animations.values()].some(anim => positionKey(anim.position) === key);
+  }
+
+  /**
+   * Feed frames from `source` into every tick's batch until it returns null
+   * or the returned function is called
+   */
+  attach(source: FrameSource): () => void {
+    this.sources.add(source);
+    this.start();
+    return () => {
+      if (this.sources.delete(source) && this.animations.size === 0 && this.sources.size === 0) this.stop();
+    };
   }
 
-  stopAll() {
+  stopAll(options: StopAnimationOptions = {}) {
+    const stopped = [...this.animations.values()];
     this.animations.clear();
+    const sources = [...this.sources];
+    this.sources.clear();
     this.stop();
+    // Cancel frames still queued or in flight
+    this.frames.abort();
+    this.frames = new AbortController();
+    if (options.restore && stopped.length > 0) {
+      // One restore per key, from its bottom layer
+      const restores = new Map<string, StyleOperation>();
+      [...stopped].sort((a, b) => a.layer - b.layer).forEach(anim => {
+        const key = positionKey(anim.position);
+        if (!restores.has(key)) restores.set(key, restoreOperation(anim));
+      });
+      this.send([...restores.values()]);
+    }
+    stopped.forEach(anim => anim.end('stopped'));
+    sources.forEach(source => source.onDetach?.());
+  }
+
+  private finish(anim: InternalAnimation) {
+    this.animations.delete(anim.id);
+    anim.end('completed');
+    try {
+      anim.onComplete?.();
+    } catch (error) {
+      console.error('Animator onComplete error:', error);
+    }
   }
 
   private tick() {
-    if (this.animations.size === 0) {
+    if (this.animations.size === 0 && this.sources.size === 0) {
       this.stop();
       return;
     }
 
     const now = Date.now();
-    const ops: Array<{ action: 'style'; position: ButtonPosition; data: ButtonStyle }> = [];
+    const ops: StyleOperation[] = [];
 
+    // Stack the animations of each key by layer (creation order within a layer)
+    const stacks = new Map<string, InternalAnimation[]>();
     for (const anim of this.animations.values()) {
-      const elapsed = now - anim.startTime;
-      const { duration, loop } = anim.options;
-
-      let progress = Math.min(1, elapsed / duration);
-      if (loop) {
-        // wrap progress to 0..1
-        progress = ((elapsed % duration) / duration);
-      }
+      const key = positionKey(anim.position);
+      stacks.set(key, [...(stacks.get(key) ?? []), anim]);
+    }
 
-      let nextBg = anim.originalStyle.bgcolor ?? '#000000';
+    for (const [key, stack] of stacks) {
+      stack.sort((a, b) => a.layer - b.layer);
 
+      let style: ButtonStyle | undefined;
       try {
-        if (anim.type === 'flash') {
-          // Smooth pulse using sine, frequency = intervals
-          const repeats = Math.max(1, anim.options.intervals);
-          const factor = 0.5 * (1 + Math.sin(progress * Math.PI * 2 * repeats));
-          nextBg = mixColors(anim.originalStyle.bgcolor ?? '#000000', anim.options.flashColor, factor);
-        } else if (anim.type === 'fade') {
-          const factor = progress; // linear
-          nextBg = mixColors(anim.options.fromColor, anim.options.toColor, factor);
-        } else if (anim.type === 'rainbow') {
-          const period = anim.options.duration;
-          const t = ((elapsed % period) / period);
-          const hue = Math.floor(t * 360);
-          nextBg = hslToHex(hue, anim.options.saturation, anim.options.lightness);
+        for (const anim of stack) {
+          style = blendStyle(style, anim.sampler.sample(elapsedOf(anim, now)), anim.blend);
         }
       } catch (e) {
-        // fallback to original
-        nextBg = anim.originalStyle.bgcolor ?? '#000000';
+        style = undefined; // skip this frame; the next tick tries again
       }
 
       // Only update if different from last sent (coalescing)
-      if (!anim.lastSentBg || !colorsEqual(anim.lastSentBg, nextBg)) {
-        anim.lastSentBg = nextBg;
-        const style: ButtonStyle = { ...anim.originalStyle, bgcolor: nextBg };
-        ops.push({ action: 'style', position: anim.position, data: style });
+      const json = JSON.stringify(style);
+      if (style && this.lastSent.get(key) !== json) {
+        this.lastSent.set(key, json);
+        ops.push({ action: 'style', position: stack[0].position, data: style });
       }
 
       // If not looping and finished, remove animation
-      if (!loop && elapsed >= duration) {
-        this.animations.delete(anim.id);
+      for (const anim of stack) {
+        if (!anim.paused && !anim.sampler.loop && elapsedOf(anim, now) >= anim.sampler.duration) this.finish(anim);
       }
     }
+    // Forget keys nobody animates, so a new animation there always sends its first frame
+    for (const key of this.lastSent.keys()) {
+      if (!stacks.has(key)) this.lastSent.delete(key);
+    }
 
-    if (ops.length > 0) {
-      // use client's batch executor to run them in sequence (one outgoing tick)
-      // This reduces churn compared to many independent callers.
-      // Note: executeBatch will still call per-operation endpoints, but
-      // we coalesce and rate-limit here to keep things reasonable.
-      this.client.executeBatch(ops as any).catch(err => {
-        // Don't let animation fail on network hiccups
-        console.error('Animator batch error:', err);
-      });
+    for (const source of [...this.sources]) {
+      let frames: ReturnType<FrameSource['frame']>;
+      try {
+        frames = source.frame(now);
+      } catch (error) {
+        console.error('Animator frame source error:', error);
+        frames = null;
+      }
+      if (frames === null) {
+        this.sources.delete(source);
+        source.onDetach?.();
+        continue;
+      }
+      frames.forEach(({ position, style }) => ops.push({ action: 'style', position, data: style }));
     }
+
+    if (ops.length > 0) this.send(ops);
+  }
+
+  private send(ops: StyleOperation[]) {
+    // use client's batch executor to send all keys of this tick concurrently
+    // (one outgoing tick). This reduces churn compared to many independent callers.
+    this.client.executeBatch(ops, { priority: 'animation', signal: this.frames.signal }).then(result => {
+      // Don't let animation fail on network hiccups. Frames superseded by a
+      // newer one for the same key are expected when the client is saturated,
+      // and an open circuit is already reported by the client.
+      const failure = result.results.find(r => r.status === 'rejected' && !QUIET_ERRORS.includes((r.error as StreamDeckError)?.code ?? ''));
+      if (failure) console.error(`Animator batch error (${result.failed}/${ops.length} failed):`, failure.error);
+    }).catch(err => {
+      console.error('Animator batch error:', err);
+    });
+  }
+}
+
+// Animation ms (at speed 1) on an animation's own clock
+function elapsedOf(anim: InternalAnimation, now: number): number {
+  return anim.paused ? anim.time : anim.time + (now - anim.resumedAt) * anim.speed;
+}
+
+function positionKey(position: ButtonPosition): string {
+  return `${position.page}/${position.row}/${position.column}`;
+}
+
+/**
+ * Put one layer's frame on top of the composite of the layers below
+ */
+function blendStyle(below: ButtonStyle | undefined, style: ButtonStyle, blend: BlendMode): ButtonStyle {
+  if (!below || blend === 'override') return { ...below, ...style };
+
+  const result: ButtonStyle = { ...below };
+  for (const property of ['bgcolor', 'color'] as const) {
+    const a = below[property];
+    const b = style[property];
+    if (!a || !b || !StreamDeckClient.isValidHexColor(a) || !StreamDeckClient.isValidHexColor(b)) continue;
+    result[property] = combineColors(a, b, blend === 'add' ? (x, y) => x + y : (x, y) => (x * y) / 255);
   }
+  return result;
+}
+
+// Sent as an animation frame so it supersedes frames still queued for the key
+function restoreOperation(anim: InternalAnimation): StyleOperation {
+  return { action: 'style', position: anim.position, data: { ...anim.originalStyle } };
+}
+
+// ----------------------
+// Samplers
+// ----------------------
+
+/**
+ * Fill in the defaults of each animation type
+ */
+function resolveOptions(type: AnimationType, originalStyle: ButtonStyle, options: AnimationOptions): ResolvedOptions {
+  return {
+    duration: options.duration ?? (type === 'rainbow' ? 3000 : 1000),
+    loop: options.loop ?? type === 'rainbow',
+    fps: options.fps ?? 15,
+    flashColor: options.flashColor ?? '#FFFFFF',
+    intervals: options.intervals ?? (type === 'flash' ? 4 : 1),
+    fromColor: options.fromColor ?? (type === 'fade' ? originalStyle.bgcolor ?? '#000000' : '#000000'),
+    toColor: options.toColor ?? '#000000',
+    saturation: options.saturation ?? 1,
+    lightness: options.lightness ?? 0.5
+  };
+}
+
+/**
+ * Build the style function for an animation. Keyframe specs are validated
+ * here (`INVALID_KEYFRAMES`), text animations in `createTextSampler()`.
+ */
+export function createSampler(spec: AnimationSpec, originalStyle: ButtonStyle): AnimationSampler {
+  if (spec.type === 'marquee' || spec.type === 'typewriter' || spec.type === 'counter') return createTextSampler(spec, originalStyle);
+
+  const opts = resolveOptions(spec.type, originalStyle, spec as AnimationOptions);
+  const { duration, loop } = opts;
+  // progress 0..1 through the current run (wrapped when looping)
+  const progressAt = (elapsed: number) => (loop ? (elapsed % duration) / duration : Math.min(1, elapsed / duration));
+  const withBg = (bgcolor: string): ButtonStyle => ({ ...originalStyle, bgcolor });
+
+  switch (spec.type) {
+    case 'flash':
+      return {
+        duration,
+        loop,
+        sample: elapsed => {
+          // Smooth pulse using sine, frequency = intervals
+          const repeats = Math.max(1, opts.intervals);
+          const factor = 0.5 * (1 + Math.sin(progressAt(elapsed) * Math.PI * 2 * repeats));
+          return withBg(mixColors(originalStyle.bgcolor ?? '#000000', opts.flashColor, factor));
+        }
+      };
+
+    case 'fade':
+      return { duration, loop, sample: elapsed => withBg(mixColors(opts.fromColor, opts.toColor, progressAt(elapsed))) };
+
+    case 'rainbow':
+      return {
+        duration,
+        loop,
+        sample: elapsed => {
+          const t = (elapsed % duration) / duration;
+          return withBg(hslToHex(Math.floor(t * 360), opts.saturation, opts.lightness));
+        }
+      };
+
+    case 'keyframes': {
+      if (!(duration > 0)) {
+        throw new StreamDeckError(`Keyframe duration must be greater than 0, got ${duration}`, 'INVALID_KEYFRAMES');
+      }
+      const keyframes = resolveKeyframes(originalStyle, spec.keyframes);
+      return { duration, loop, sample: elapsed => sampleKeyframes(keyframes, progressAt(elapsed)) };
+    }
+  }
+}
+
+// ----------------------
+// Keyframe helpers
+// ----------------------
+
+// Properties blended between stops; everything else switches at the stop
+const INTERPOLATED: Array<'bgcolor' | 'color' | 'size'> = ['bgcolor', 'color', 'size'];
+
+/**
+ * Validate stops and merge each stop's style over the previous ones. A stop
+ * at 0 holding the original style is added when the first stop starts later.
+ */
+function resolveKeyframes(originalStyle: ButtonStyle, keyframes: Keyframe[]): ResolvedKeyframe[] {
+  const invalid = (reason: string) => new StreamDeckError(`Invalid keyframes: ${reason}`, 'INVALID_KEYFRAMES', undefined, keyframes);
+
+  if (!Array.isArray(keyframes) || keyframes.length === 0) throw invalid('at least one keyframe is required');
+
+  const resolved: ResolvedKeyframe[] = [];
+  let style: ButtonStyle = { ...originalStyle };
+  keyframes.forEach((keyframe, index) => {
+    const { at } = keyframe;
+    if (typeof at !== 'number' || !(at >= 0 && at <= 1)) throw invalid(`keyframes[${index}].at must be between 0 and 1`);
+    if (index > 0 && at < keyframes[index - 1].at) throw invalid(`keyframes[${index}].at must not be before the previous stop`);
+    const [styleError] = buttonStyleErrors(keyframe.style ?? {});
+    if (styleError) throw invalid(`keyframes[${index}].style: ${styleError}`);
+
+    if (index === 0 && at > 0) resolved.push({ at: 0, style, easing: resolveEasing('linear') });
+    style = { ...style, ...keyframe.style };
+    resolved.push({ at, style, easing: resolveEasing(keyframe.easing) });
+  });
+  return resolved;
+}
+
+/**
+ * The style at `progress` (0..1) along resolved keyframes
+ */
+function sampleKeyframes(keyframes: ResolvedKeyframe[], progress: number): ButtonStyle {
+  let index = 0;
+  while (index < keyframes.length - 1 && keyframes[index + 1].at <= progress) index++;
+
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+  if (!to || to.at === from.at) return { ...from.style };
+
+  const eased = from.easing((progress - from.at) / (to.at - from.at));
+  const style: ButtonStyle = { ...from.style };
+  for (const property of INTERPOLATED) {
+    const a = from.style[property];
+    const b = to.style[property];
+    if (a === undefined || b === undefined || a === b) continue;
+    if (property === 'size') {
+      if (typeof a === 'number' && typeof b === 'number') style.size = Math.max(1, Math.round(a + (b - a) * eased));
+    } else if (StreamDeckClient.isValidHexColor(a as string) && StreamDeckClient.isValidHexColor(b as string)) {
+      style[property] = mixColors(a as string, b as string, eased);
+    }
+  }
+  return style;
 }
 
 // ----------------------
@@ -257,8 +704,10 @@ function mixColors(hexA: string, hexB: string, t: number) {
   return StreamDeckClient.rgbToHex(r, g, bb);
 }
 
-function colorsEqual(a: string, b: string) {
-  return (a || '').toUpperCase() === (b || '').toUpperCase();
+function combineColors(hexA: string, hexB: string, combine: (a: number, b: number) => number) {
+  const a = StreamDeckClient.hexToRgb(hexA) ?? { r: 0, g: 0, b: 0 };
+  const b = StreamDeckClient.hexToRgb(hexB) ?? { r: 0, g: 0, b: 0 };
+  return StreamDeckClient.rgbToHex(clamp(combine(a.r, b.r)), clamp(combine(a.g, b.g)), clamp(combine(a.b, b.b)));
 }
 
 // HSL (0-360, 0-1, 0-1) -> hex
@@ -0,0 +1,155 @@
+/**
+ * Batch executor
+ *
+ * ## Overview
+ * Shared implementation behind `executeBatch` on every `ControlSurface`.
+ * Operations are grouped per button key: keys are processed in parallel with
+ * bounded concurrency, while operations on the same key keep their order.
+ * Consecutive style writes to one key are merged into a single request, and
+ * every operation gets an entry in the returned `BatchResult` instead of
+ * failures being swallowed.
+ *
+ * ## Example
+ * ```ts
+ * const result = await client.executeBatch(operations, { concurrency: 8 });
+ * result.results.filter(r => r.status === 'rejected').forEach(r => console.warn(r.error));
+ * ```
+ */
+
+import type {
+  BatchOperation,
+  BatchOperationResult,
+  BatchOptions,
+  BatchResult,
+  ButtonStyle,
+  ControlSurface,
+  RequestOptions
+} from './types';
+import { throwIfAborted } from './abort';
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Execute a batch of operations against a surface and report per-operation outcomes
+ */
+export async function runBatch(
+  surface: ControlSurface,
+  operations: BatchOperation[],
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const startTime = Date.now();
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY));
+  const coalesce = options.coalesce !== false;
+  const requestOptions: RequestOptions = { priority: options.priority, signal: options.signal };
+
+  const results: BatchOperationResult[] = operations.map((operation, index) => ({
+    index,
+    operation,
+    status: 'fulfilled'
+  }));
+
+  // Group operation indexes per key, preserving order within each key
+  const queues = new Map<string, number[]>();
+  operations.forEach((operation, index) => {
+    const key = `${operation.position.page}:${operation.position.row}:${operation.position.column}`;
+    const queue = queues.get(key);
+    if (queue) queue.push(index);
+    else queues.set(key, [index]);
+  });
+
+  // Merge runs of consecutive style writes per key; the last write of a run
+  // carries the merged style and the earlier ones are marked coalesced
+  const styles = new Map<number, ButtonStyle>();
+  for (const [key, queue] of queues) {
+    const kept: number[] = [];
+    let merged: number[] = []; // writes folded into the last kept style write
+    for (const index of queue) {
+      const operation = operations[index];
+      const last = kept[kept.length - 1];
+
+      if (operation.action === 'style') {
+        const style = (operation.data || {}) as ButtonStyle;
+        if (coalesce && last !== undefined && operations[last].action === 'style') {
+          styles.set(index, { ...styles.get(last), ...style });
+          styles.delete(last);
+          merged.push(last);
+          merged.forEach(i => {
+            results[i].status = 'coalesced';
+            results[i].mergedInto = index;
+          });
+          kept[kept.length - 1] = index;
+          continue;
+        }
+        styles.set(index, { ...style });
+      }
+
+      merged = [];
+      kept.push(index);
+    }
+    queues.set(key, kept);
+  }
+
+  const run = async (index: number) => {
+    const operation = operations[index];
+    try {
+      // Surfaces without cancellation support still stop between operations
+      throwIfAborted(options.signal);
+      switch (operation.action) {
+        case 'style': {
+          const style = styles.get(index);
+          if (style && Object.keys(style).length > 0) {
+            await surface.updateButtonStyleBody(operation.position, style, requestOptions);
+          }
+          break;
+        }
+        case 'press':
+          await surface.pressButton(operation.position, requestOptions);
+          break;
+        case 'down':
+          await surface.pressButtonDown(operation.position, requestOptions);
+          break;
+        case 'up':
+          await surface.releaseButton(operation.position, requestOptions);
+          break;
+        case 'rotate-left':
+          await surface.rotateLeft(operation.position, requestOptions);
+          break;
+        case 'rotate-right':
+          await surface.rotateRight(operation.position, requestOptions);
+          break;
+      }
+    } catch (error) {
+      results[index].status = 'rejected';
+      results[index].error = error as Error;
+    }
+  };
+
+  // Worker pool: each worker drains whole keys so per-key order is kept
+  const pending = [...queues.values()];
+  const worker = async () => {
+    let queue: number[] | undefined;
+    while ((queue = pending.shift())) {
+      for (const index of queue) {
+        await run(index);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+
+  // A coalesced write shares the fate of the write it was merged into: if that
+  // write was rejected, so was every write folded into it
+  for (const result of results) {
+    if (result.status === 'coalesced' && result.mergedInto !== undefined && results[result.mergedInto].status === 'rejected') {
+      result.status = 'rejected';
+      result.error = results[result.mergedInto].error;
+    }
+  }
+
+  return {
+    results,
+    succeeded: results.filter(r => r.status === 'fulfilled').length,
+    failed: results.filter(r => r.status === 'rejected').length,
+    coalesced: results.filter(r => r.status === 'coalesced').length,
+    duration: Date.now() - startTime
+  };
+}
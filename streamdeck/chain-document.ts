@@ -0,0 +1,175 @@
+/**
+ * Chain documents
+ *
+ * ## Overview
+ * JSON representation of a `ButtonChain` or `SystemChain`: its style changes
+ * and queued operations (actions, steps, variables, rescans, fades). Chains
+ * export themselves with `toJSON()` (so `JSON.stringify(chain)` works), and
+ * `client.loadChains()` / `client.runChains()` rebuild and run documents,
+ * e.g. macro files written by hand or chains received over the network.
+ *
+ * Function conditions (`when(() => ...)`, fade predicates) cannot be
+ * serialized; exporting such a chain throws `NOT_SERIALIZABLE`.
+ *
+ * ## Example
+ * ```json
+ * {
+ *   "version": 1,
+ *   "kind": "button",
+ *   "position": { "page": 1, "row": 0, "column": 0 },
+ *   "style": { "text": "LIVE", "bgcolor": "#FF0000" },
+ *   "operations": [
+ *     { "type": "action", "action": "press" },
+ *     { "type": "fade", "fade": "fadeTo", "color": "#000000", "duration": 500 }
+ *   ]
+ * }
+ * ```
+ */
+
+import type { ButtonAction, ButtonPosition, ButtonStyle, ChainOperation } from './types';
+import { StreamDeckError } from './types';
+import { buttonStyleErrors } from './style';
+
+export const CHAIN_DOCUMENT_VERSION = 1;
+
+// A ChainOperation without function conditions. Style changes are stored in
+// the document's `style`, not as an operation.
+export type SerializedOperation = Exclude<ChainOperation, { type: 'style' } | { type: 'fade' }> | SerializedFade;
+
+type SerializedFade = Extract<ChainOperation, { type: 'fade' }> & { condition?: boolean };
+
+export interface ButtonChainDocument {
+  version: typeof CHAIN_DOCUMENT_VERSION;
+  kind: 'button';
+  position: ButtonPosition;
+  enabled?: boolean; // false for chains disabled with when(false)
+  style?: ButtonStyle;
+  operations: SerializedOperation[];
+}
+
+export interface SystemChainDocument {
+  version: typeof CHAIN_DOCUMENT_VERSION;
+  kind: 'system';
+  enabled?: boolean;
+  operations: SerializedOperation[]; // variables and rescans only
+}
+
+export type ChainDocument = ButtonChainDocument | SystemChainDocument;
+
+const BUTTON_ACTIONS: ButtonAction[] = ['press', 'down', 'up', 'rotate-left', 'rotate-right'];
+const HEX_COLOR = /^#[0-9A-F]{6}$/i;
+
+/**
+ * Convert a queued operation for a document. Throws `NOT_SERIALIZABLE` for
+ * fades with a function condition.
+ */
+export function serializeOperation(operation: ChainOperation): SerializedOperation {
+  if (operation.type === 'style') {
+    throw new StreamDeckError('Style changes are stored in the document style', 'NOT_SERIALIZABLE');
+  }
+  if (operation.type !== 'fade') return { ...operation };
+
+  const { condition, ...fade } = operation;
+  if (typeof condition === 'function') {
+    throw new StreamDeckError(`Cannot serialize ${operation.fade} with a function condition`, 'NOT_SERIALIZABLE');
+  }
+  return condition === undefined ? fade : { ...fade, condition };
+}
+
+/**
+ * Validate one chain document, an array of them, or the JSON text of either.
+ * Throws `INVALID_CHAIN` naming the offending field.
+ */
+export function parseChainDocuments(input: unknown): ChainDocument[] {
+  let data: any = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new StreamDeckError('Invalid chain document: not valid JSON', 'INVALID_CHAIN', undefined, input);
+    }
+  }
+
+  const documents = Array.isArray(data) ? data : [data];
+  documents.forEach((document, index) => validateDocument(document, Array.isArray(data) ? `[${index}]` : 'document'));
+  return documents as ChainDocument[];
+}
+
+function validateDocument(document: any, where: string): void {
+  const invalid = (reason: string) => new StreamDeckError(`Invalid chain ${where}: ${reason}`, 'INVALID_CHAIN', undefined, document);
+
+  if (!document || typeof document !== 'object') throw invalid('expected an object');
+  if (document.version !== CHAIN_DOCUMENT_VERSION) {
+    throw invalid(`unsupported version ${JSON.stringify(document.version)} (expected ${CHAIN_DOCUMENT_VERSION})`);
+  }
+  if (document.kind !== 'button' && document.kind !== 'system') throw invalid(`kind must be 'button' or 'system'`);
+  if (document.enabled !== undefined && typeof document.enabled !== 'boolean') throw invalid('enabled must be a boolean');
+
+  if (document.kind === 'button') {
+    const position = document.position;
+    if (!position || !['page', 'row', 'column'].every(axis => Number.isInteger(position[axis]) && position[axis] >= 0)) {
+      throw invalid('position must have non-negative integer page, row and column');
+    }
+    if (document.style !== undefined) {
+      if (!document.style || typeof document.style !== 'object') throw invalid('style must be an object');
+      const [styleError] = buttonStyleErrors(document.style);
+      if (styleError) throw invalid(`style: ${styleError}`);
+    }
+  } else if (document.style !== undefined || document.position !== undefined) {
+    throw invalid('system chains have no position or style');
+  }
+
+  if (!Array.isArray(document.operations)) throw invalid('operations must be an array');
+  document.operations.forEach((operation: any, index: number) => {
+    const reason = operationError(operation, document.kind);
+    if (reason) throw invalid(`operations[${index}]: ${reason}`);
+  });
+}
+
+/**
+ * Why an operation is invalid, or undefined when it is fine
+ */
+function operationError(operation: any, kind: 'button' | 'system'): string | undefined {
+  if (!operation || typeof operation !== 'object') return 'expected an object';
+  const isDuration = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+  if (kind === 'system' && operation.type !== 'variable' && operation.type !== 'rescan') {
+    return `'${operation.type}' is not allowed in a system chain`;
+  }
+
+  switch (operation.type) {
+    case 'action':
+      return BUTTON_ACTIONS.includes(operation.action) ? undefined : `action must be one of ${BUTTON_ACTIONS.join(', ')}`;
+    case 'step':
+      return Number.isInteger(operation.step) ? undefined : 'step must be an integer';
+    case 'variable':
+      if (typeof operation.name !== 'string' || operation.name === '') return 'name must be a non-empty string';
+      return typeof operation.value === 'string' ? undefined : 'value must be a string';
+    case 'rescan':
+      return undefined;
+    case 'fade': {
+      if (operation.condition !== undefined && typeof operation.condition !== 'boolean') return 'condition must be a boolean';
+      switch (operation.fade) {
+        case 'fadeTo':
+          if (!HEX_COLOR.test(operation.color)) return 'color must be a hex color like #RRGGBB';
+          return isDuration(operation.duration) ? undefined : 'duration must be a non-negative number';
+        case 'fadeToBlack':
+          return isDuration(operation.duration) ? undefined : 'duration must be a non-negative number';
+        case 'fadeSequence':
+          if (!Array.isArray(operation.sequence)) return 'sequence must be an array';
+          return operation.sequence.every((entry: any) => entry && HEX_COLOR.test(entry.color) && isDuration(entry.duration))
+            ? undefined
+            : 'sequence entries need a hex color and a non-negative duration';
+        case 'fadeOutIn':
+          if (!HEX_COLOR.test(operation.color)) return 'color must be a hex color like #RRGGBB';
+          return isDuration(operation.fadeOutDuration) && isDuration(operation.fadeInDuration)
+            ? undefined
+            : 'fadeOutDuration and fadeInDuration must be non-negative numbers';
+        default:
+          return `unknown fade '${operation.fade}'`;
+      }
+    }
+    default:
+      return `unknown operation type '${operation.type}'`;
+  }
+}
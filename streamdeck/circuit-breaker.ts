@@ -0,0 +1,128 @@
+/**
+ * Circuit breaker
+ *
+ * ## Overview
+ * Tracks consecutive request failures for a `StreamDeckClient`. After
+ * `failureThreshold` failures the circuit opens and requests fail fast with
+ * `CIRCUIT_OPEN` instead of waiting through retries and backoff. Once
+ * `resetTimeout` has passed the circuit goes half-open and lets a single probe
+ * request through: success closes it again, failure re-opens it.
+ *
+ * ## Example
+ * ```ts
+ * const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 5000 });
+ * breaker.acquire(); // throws CIRCUIT_OPEN while open
+ * try {
+ *   await send();
+ *   breaker.recordSuccess();
+ * } catch (error) {
+ *   breaker.recordFailure();
+ * }
+ * ```
+ */
+
+import type { CircuitBreakerConfig, CircuitState, CircuitStatus } from './types';
+import { StreamDeckError } from './types';
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt?: number;
+  private probeInFlight = false;
+  private failureThreshold: number;
+  private resetTimeout: number;
+  private onStateChange?: (status: CircuitStatus, previous: CircuitState) => void;
+
+  constructor(
+    config: CircuitBreakerConfig = {},
+    onStateChange?: (status: CircuitStatus, previous: CircuitState) => void
+  ) {
+    this.failureThreshold = Math.max(1, config.failureThreshold || 5);
+    this.resetTimeout = Math.max(0, config.resetTimeout ?? 10000);
+    this.onStateChange = onStateChange;
+  }
+
+  /**
+   * Claim permission to send a request. Throws `CIRCUIT_OPEN` while the
+   * circuit is open, or while a half-open probe is already in flight.
+   */
+  acquire(): void {
+    if (this.state === 'open' && Date.now() >= (this.openedAt ?? 0) + this.resetTimeout) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return;
+    }
+
+    if (this.state !== 'closed') {
+      const status = this.getStatus();
+      throw new StreamDeckError(
+        `Circuit open after ${this.failures} failed requests; failing fast`,
+        'CIRCUIT_OPEN',
+        undefined,
+        status
+      );
+    }
+  }
+
+  /**
+   * The request reached Companion
+   */
+  recordSuccess(): void {
+    this.probeInFlight = false;
+    this.failures = 0;
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  /**
+   * The request failed because Companion could not be reached
+   */
+  recordFailure(): void {
+    this.probeInFlight = false;
+    this.failures++;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * The request ended without telling anything about Companion's health
+   * (e.g. it was dropped before being sent)
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Close the circuit and forget past failures
+   */
+  reset(): void {
+    this.probeInFlight = false;
+    this.failures = 0;
+    this.openedAt = undefined;
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getStatus(): CircuitStatus {
+    const status: CircuitStatus = { state: this.state, failures: this.failures };
+    if (this.state !== 'closed' && this.openedAt !== undefined) {
+      status.openedAt = this.openedAt;
+      status.nextAttemptAt = this.openedAt + this.resetTimeout;
+    }
+    return status;
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    if (state === 'closed') this.openedAt = undefined;
+    this.onStateChange?.(this.getStatus(), previous);
+  }
+}
@@ -21,16 +21,60 @@
 import type {
   ButtonPosition,
   ButtonStyle,
+  ButtonAlignment,
   ButtonAction,
   CustomVariable,
   ModuleVariable,
   StreamDeckConfig,
   ConnectionStatus,
   BatchOperation,
+  BatchOptions,
+  BatchResult,
   StreamDeckEvent,
-  ApiResponse
+  ApiResponse,
+  Transport,
+  ControlSurface,
+  RequestOptions,
+  SchedulerStats,
+  CircuitStatus,
+  CacheStats,
+  HistoryEntry,
+  HistoryResult,
+  ApplyOptions,
+  ChainOperation,
+  FadeCondition,
+  FadeOperation,
+  EventOf,
+  EventStreamOptions,
+  StreamDeckEventKey
 } from './types';
 import { StreamDeckError } from './types';
+import { FetchTransport } from './transport';
+import { ExecutionPlan, PlanTransport } from './plan';
+import { ChangeHistory } from './history';
+import { BUTTON_STYLE_PROPERTIES, buttonStyleErrors, styleError } from './style';
+import { runBatch } from './batch';
+import { RequestScheduler } from './scheduler';
+import type { ScheduleOptions } from './scheduler';
+import { CircuitBreaker } from './circuit-breaker';
+import { EventHub } from './events';
+import { createSnapshot, diffSnapshot, parseSnapshot } from './snapshot';
+import { Transaction, runTransaction } from './transaction';
+import { CHAIN_DOCUMENT_VERSION, parseChainDocuments, serializeOperation } from './chain-document';
+import type { ButtonChainDocument, SystemChainDocument } from './chain-document';
+import type { TransactionResult } from './transaction';
+import type {
+  ButtonSnapshot,
+  ExportSnapshotOptions,
+  RestoreResult,
+  RestoreSnapshotOptions,
+  SnapshotButton
+} from './snapshot';
+import type { EventSelector } from './events';
+import { abortError, delay, isAbortError, throwIfAborted } from './abort';
+import type { RemoteClient } from './remote';
+import type { AnimationHandle, Animator, Keyframe } from './animator';
+import type { ButtonSelector } from './utils';
 
 // Remote capabilities type
 export interface RemoteCapabilities {
@@ -39,39 +83,111 @@ export interface RemoteCapabilities {
   available: boolean;
 }
 
-export class StreamDeckClient {
+// Cached button state; `expiresAt` is unset when entries don't expire
+interface CacheEntry {
+  style: ButtonStyle;
+  expiresAt?: number;
+}
+
+export class StreamDeckClient implements ControlSurface {
   private baseUrl: string;
   private timeout: number;
   private retries: number;
   private defaultHeaders: Record<string, string>;
-  private eventListeners: Set<(event: StreamDeckEvent) => void> = new Set();
-  private _remoteClient?: any;
-  private _animator?: any;
-  private buttonStateCache: Map<string, ButtonStyle> = new Map();
+  private transport: Transport;
+  private scheduler: RequestScheduler;
+  private circuit?: CircuitBreaker;
+  private eventHub = new EventHub('StreamDeck');
+  private _remoteClient?: RemoteClient;
+  private _animator?: Animator;
+  private buttonStateCache: Map<string, CacheEntry> = new Map();
   private cachingEnabled: boolean = true;
+  private cacheTTL?: number;
+  private cacheCounters = { hits: 0, misses: 0, expired: 0 };
+  private variableCache: Map<string, string> = new Map(); // last value set or read per custom variable
   private nonBlockingAnimations: boolean = true;
+  private executionPlan: ExecutionPlan | null = null; // set in dry-run mode
+  private changeHistory: ChangeHistory;
 
   constructor(config: StreamDeckConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.timeout = config.timeout || 5000;
     this.retries = config.retries || 3;
     this.cachingEnabled = config.enableCaching !== false; // Default to true
+    this.cacheTTL = config.cacheTTL;
     this.nonBlockingAnimations = config.nonBlockingAnimations !== false; // Default to true
+    this.changeHistory = new ChangeHistory(config.historySize ?? 50);
     this.defaultHeaders = {
       'Content-Type': 'application/json',
       'User-Agent': 'StreamDeck-Client/1.0',
       ...config.defaultHeaders
     };
+    if (config.dryRun) {
+      this.executionPlan = new ExecutionPlan();
+      this.transport = new PlanTransport(this.executionPlan);
+    } else {
+      this.transport = config.transport ?? new FetchTransport();
+    }
+    this.scheduler = new RequestScheduler({
+      requestsPerSecond: config.requestsPerSecond,
+      maxConcurrent: config.maxConcurrentRequests,
+      onChange: (stats, reason) => this.emitEvent({
+        type: 'system',
+        action: reason,
+        data: stats,
+        timestamp: Date.now()
+      })
+    });
+    if (config.circuitBreaker !== false) {
+      this.circuit = new CircuitBreaker(config.circuitBreaker || {}, (status, previous) => this.emitEvent({
+        type: 'system',
+        action: 'circuit',
+        data: { ...status, previous },
+        timestamp: Date.now()
+      }));
+    }
   }
 
   /**
-   * Make HTTP request with retry logic
+   * Make HTTP request through the circuit breaker.
+   * Fails fast with `CIRCUIT_OPEN` while Companion is considered down.
    */
   private async makeRequest(
     method: 'GET' | 'POST',
     path: string,
     body?: any,
-    queryParams?: Record<string, string>
+    queryParams?: Record<string, string>,
+    schedule: ScheduleOptions = {}
+  ): Promise<any> {
+    if (!this.circuit) {
+      return this.sendWithRetries(method, path, body, queryParams, schedule);
+    }
+
+    this.circuit.acquire();
+    try {
+      const result = await this.sendWithRetries(method, path, body, queryParams, schedule);
+      this.circuit.recordSuccess();
+      return result;
+    } catch (error) {
+      const outcome = classifyFailure(error);
+      if (outcome === 'unreachable') this.circuit.recordFailure();
+      else if (outcome === 'reachable') this.circuit.recordSuccess();
+      else this.circuit.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Send an HTTP request with retry logic.
+   * Each attempt is queued on the request scheduler; the actual I/O is
+   * delegated to the configured `Transport`.
+   */
+  private async sendWithRetries(
+    method: 'GET' | 'POST',
+    path: string,
+    body: any,
+    queryParams: Record<string, string> | undefined,
+    schedule: ScheduleOptions
   ): Promise<any> {
     const url = new URL(path, this.baseUrl);
     
@@ -82,52 +198,36 @@ export class StreamDeckClient {
       });
     }
 
+    const signal = schedule.signal;
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.retries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      throwIfAborted(signal);
 
-        const response = await fetch(url.toString(), {
+      try {
+        return await this.scheduler.schedule(() => this.transport.request({
           method,
+          url: url.toString(),
           headers: this.defaultHeaders,
-          body: body ? JSON.stringify(body) : undefined,
-          signal: controller.signal
-        });
-
-        clearTimeout(timeoutId);
-
-        // Clone response to read body multiple times if needed
-        const responseClone = response.clone();
-
-        if (!response.ok) {
-          const errorText = await responseClone.text().catch(() => null);
-          throw new StreamDeckError(
-            `HTTP ${response.status}: ${response.statusText}`,
-            'HTTP_ERROR',
-            response.status,
-            errorText
-          );
-        }
-
-        // Try to parse JSON response, but don't fail if it's not JSON
-        try {
-          return await response.json();
-        } catch {
-          // Use the cloned response for text parsing
-          return await responseClone.text();
-        }
-
+          body,
+          timeout: this.timeout,
+          signal
+        }), schedule);
       } catch (error) {
+        // A cancelled call or a superseded animation frame is not worth retrying.
+        // Only the caller's own signal counts as a cancellation; a transport
+        // aborting on its timeout is retried like any other failure.
+        throwIfAborted(signal);
+        if (error instanceof StreamDeckError && error.code === 'REQUEST_DROPPED') throw error;
+
         lastError = error as Error;
         
         if (attempt === this.retries) {
           break;
         }
 
-        // Wait before retry (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 100));
+        // Wait before retry (exponential backoff); aborting cuts the wait short
+        await delay(Math.pow(2, attempt) * 100, signal);
       }
     }
 
@@ -146,12 +246,29 @@ export class StreamDeckClient {
     return `${position.page}:${position.row}:${position.column}`;
   }
 
+  /**
+   * Scheduling options for a style write. Keyed by button so a newer
+   * animation frame replaces a stale queued one.
+   */
+  private styleSchedule(position: ButtonPosition, options: RequestOptions): ScheduleOptions {
+    return { ...options, priority: options.priority ?? 'normal', key: this.getButtonKey(position) };
+  }
+
   /**
    * Get cached button state, or return empty state if not cached
    */
   private getCachedButtonState(position: ButtonPosition): ButtonStyle {
     const key = this.getButtonKey(position);
-    return this.buttonStateCache.get(key) || {};
+    const entry = this.buttonStateCache.get(key);
+    if (!entry) return {};
+
+    // An expired entry may no longer match what Companion shows; forget it
+    if (entry.expiresAt !== undefined && Date.now() >= entry.expiresAt) {
+      this.buttonStateCache.delete(key);
+      this.cacheCounters.expired++;
+      return {};
+    }
+    return entry.style;
   }
 
   /**
@@ -166,7 +283,12 @@ export class StreamDeckClient {
     const key = this.getButtonKey(position);
     const currentState = this.getCachedButtonState(position);
     const newState = { ...currentState, ...style };
-    this.buttonStateCache.set(key, newState);
+    this.buttonStateCache.set(key, this.cacheEntry(newState, this.cacheTTL));
+    this.executionPlan?.resolve(position, newState);
+  }
+
+  private cacheEntry(style: ButtonStyle, ttl?: number): CacheEntry {
+    return { style, expiresAt: ttl !== undefined && ttl > 0 ? Date.now() + ttl : undefined };
   }
 
   /**
@@ -182,10 +304,12 @@ export class StreamDeckClient {
     
     for (const [key, value] of Object.entries(style)) {
       if (currentState[key as keyof ButtonStyle] !== value) {
+        this.cacheCounters.misses++;
         return true;
       }
     }
     
+    this.cacheCounters.hits++;
     return false;
   }
 
@@ -204,6 +328,121 @@ export class StreamDeckClient {
     this.buttonStateCache.clear();
   }
 
+  /**
+   * Forget the cached state of every button on a page, e.g. after the page
+   * was edited in the Companion UI. The next update to each button is sent.
+   *
+   * @returns Number of entries removed
+   */
+  invalidatePage(page: number): number {
+    let removed = 0;
+    for (const key of [...this.buttonStateCache.keys()]) {
+      if (key.startsWith(`${page}:`)) {
+        this.buttonStateCache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Re-send the cached state of every button on a page, so Companion shows
+   * what the cache believes it shows. Entries that have expired are not sent.
+   * Each re-sent entry starts a fresh TTL.
+   *
+   * @returns Number of buttons re-sent
+   */
+  async resync(page: number, options: RequestOptions = {}): Promise<number> {
+    const sends = this.cachedPositions([page])
+      .map(position => ({ position, style: this.getCachedButtonState(position) }))
+      .filter(({ style }) => Object.keys(style).length > 0)
+      .map(({ position, style }) => this.sendStyleBody(position, style, options));
+
+    await Promise.all(sends);
+    return sends.length;
+  }
+
+  /**
+   * Export the cached button styles as a versioned snapshot (plain JSON data)
+   *
+   * @example
+   * const live = client.exportSnapshot({ name: 'live', pages: [1, 2] });
+   * localStorage.setItem('live', JSON.stringify(live));
+   */
+  exportSnapshot(options: ExportSnapshotOptions = {}): ButtonSnapshot {
+    const buttons = this.cachedPositions(options.pages)
+      .map(position => ({ position, style: this.getCachedButtonState(position) }))
+      .filter(({ style }) => Object.keys(style).length > 0);
+    return createSnapshot(buttons, options.name);
+  }
+
+  /**
+   * Restore a snapshot (object or JSON text) to Companion. Only properties
+   * that differ from the cache are sent, unless `force` is set. Buttons not in
+   * the snapshot are left as they are. Throws `INVALID_SNAPSHOT` for a
+   * malformed or unsupported snapshot; failed buttons are reported in `batch`.
+   *
+   * @example
+   * await client.restoreSnapshot(breakLook);
+   * await client.restoreSnapshot(liveLook, { force: true }); // after a Companion restart
+   */
+  async restoreSnapshot(input: ButtonSnapshot | string, options: RestoreSnapshotOptions = {}): Promise<RestoreResult> {
+    const snapshot = parseSnapshot(input);
+    const { force, ...batchOptions } = options;
+
+    let changes: SnapshotButton[];
+    if (force) {
+      changes = snapshot.buttons.filter(({ style }) => Object.keys(style).length > 0);
+      changes.forEach(({ position }) => this.clearButtonCache(position));
+    } else {
+      changes = diffSnapshot(snapshot, position => this.getCachedButtonState(position));
+    }
+
+    const batch = await this.executeBatch(
+      changes.map(({ position, style }) => ({ position, action: 'style' as const, data: style })),
+      batchOptions
+    );
+    return { sent: changes.length, unchanged: snapshot.buttons.length - changes.length, batch };
+  }
+
+  /**
+   * Positions with a cache entry, optionally limited to some pages
+   */
+  private cachedPositions(pages?: number[]): ButtonPosition[] {
+    const positions: ButtonPosition[] = [];
+    for (const key of this.buttonStateCache.keys()) {
+      const [page, row, column] = key.split(':').map(Number);
+      if (!pages || pages.includes(page)) positions.push({ page, row, column });
+    }
+    return positions;
+  }
+
+  /**
+   * Set how long cached entries are trusted (applies to entries written from
+   * now on; undefined or 0 = no expiry)
+   */
+  setCacheTTL(ttl?: number): void {
+    this.cacheTTL = ttl;
+  }
+
+  /**
+   * Cache hits, misses and expirations since creation or `resetCacheStats()`
+   */
+  getCacheStats(): CacheStats {
+    const { hits, misses, expired } = this.cacheCounters;
+    return {
+      entries: this.buttonStateCache.size,
+      hits,
+      misses,
+      expired,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0
+    };
+  }
+
+  resetCacheStats(): void {
+    this.cacheCounters = { hits: 0, misses: 0, expired: 0 };
+  }
+
   /**
    * Enable or disable button state caching
    */
@@ -221,6 +460,34 @@ export class StreamDeckClient {
     return this.cachingEnabled;
   }
 
+  /**
+   * Get queue depth, in-flight count and drop count of the request scheduler
+   */
+  getSchedulerStats(): SchedulerStats {
+    return this.scheduler.getStats();
+  }
+
+  /**
+   * Change the requests-per-second budget at runtime (0 = unlimited)
+   */
+  setRequestsPerSecond(requestsPerSecond: number): void {
+    this.scheduler.setRequestsPerSecond(requestsPerSecond);
+  }
+
+  /**
+   * Get the circuit breaker state (always 'closed' when the breaker is disabled)
+   */
+  getCircuitStatus(): CircuitStatus {
+    return this.circuit ? this.circuit.getStatus() : { state: 'closed', failures: 0 };
+  }
+
+  /**
+   * Close the circuit manually, e.g. after Companion was restarted
+   */
+  resetCircuit(): void {
+    this.circuit?.reset();
+  }
+
   /**
    * Check if non-blocking animations are enabled
    */
@@ -244,12 +511,13 @@ export class StreamDeckClient {
 
   /**
    * Manually set the cached state for a button (use with caution)
-   * This can be useful when you know the current state of a button from external sources
+   * This can be useful when you know the current state of a button from external sources.
+   * `ttl` overrides the configured `cacheTTL` for this entry.
    */
-  setButtonState(position: ButtonPosition, state: ButtonStyle): void {
+  setButtonState(position: ButtonPosition, state: ButtonStyle, ttl: number | undefined = this.cacheTTL): void {
     if (this.cachingEnabled) {
       const key = this.getButtonKey(position);
-      this.buttonStateCache.set(key, { ...state });
+      this.buttonStateCache.set(key, this.cacheEntry({ ...state }, ttl));
     }
   }
 
@@ -257,13 +525,7 @@ export class StreamDeckClient {
    * Emit event to listeners
    */
   private emitEvent(event: StreamDeckEvent): void {
-    this.eventListeners.forEach(listener => {
-      try {
-        listener(event);
-      } catch (error) {
-        console.error('Error in StreamDeck event listener:', error);
-      }
-    });
+    this.eventHub.emit(event);
   }
 
   // =============================================================================
@@ -291,9 +553,9 @@ export class StreamDeckClient {
    *
    * @returns Promise<void>
    */
-  async pressButton(position: ButtonPosition): Promise<void> {
+  async pressButton(position: ButtonPosition, options: RequestOptions = {}): Promise<void> {
     const path = `/api/location/${position.page}/${position.row}/${position.column}/press`;
-    await this.makeRequest('POST', path);
+    await this.makeRequest('POST', path, undefined, undefined, { ...options, priority: options.priority ?? 'high' });
     
     this.emitEvent({
       type: 'button',
@@ -309,9 +571,9 @@ export class StreamDeckClient {
   * @example
   * /api/location/0/0/0/down
    */
-  async pressButtonDown(position: ButtonPosition): Promise<void> {
+  async pressButtonDown(position: ButtonPosition, options: RequestOptions = {}): Promise<void> {
     const path = `/api/location/${position.page}/${position.row}/${position.column}/down`;
-    await this.makeRequest('POST', path);
+    await this.makeRequest('POST', path, undefined, undefined, { ...options, priority: options.priority ?? 'high' });
     
     this.emitEvent({
       type: 'button',
@@ -327,9 +589,9 @@ export class StreamDeckClient {
   * @example
   * /api/location/0/0/0/up
    */
-  async releaseButton(position: ButtonPosition): Promise<void> {
+  async releaseButton(position: ButtonPosition, options: RequestOptions = {}): Promise<void> {
     const path = `/api/location/${position.page}/${position.row}/${position.column}/up`;
-    await this.makeRequest('POST', path);
+    await this.makeRequest('POST', path, undefined, undefined, { ...options, priority: options.priority ?? 'high' });
     
     this.emitEvent({
       type: 'button',
@@ -345,9 +607,9 @@ export class StreamDeckClient {
   * @example
   * /api/location/0/0/0/rotate-left
    */
-  async rotateLeft(position: ButtonPosition): Promise<void> {
+  async rotateLeft(position: ButtonPosition, options: RequestOptions = {}): Promise<void> {
     const path = `/api/location/${position.page}/${position.row}/${position.column}/rotate-left`;
-    await this.makeRequest('POST', path);
+    await this.makeRequest('POST', path, undefined, undefined, { ...options, priority: options.priority ?? 'high' });
     
     this.emitEvent({
       type: 'button',
@@ -363,9 +625,9 @@ export class StreamDeckClient {
   * @example
   * /api/location/0/0/0/rotate-right
    */
-  async rotateRight(position: ButtonPosition): Promise<void> {
+  async rotateRight(position: ButtonPosition, options: RequestOptions = {}): Promise<void> {
     const path = `/api/location/${position.page}/${position.row}/${position.column}/rotate-right`;
-    await this.makeRequest('POST', path);
+    await this.makeRequest('POST', path, undefined, undefined, { ...options, priority: options.priority ?? 'high' });
     
     this.emitEvent({
       type: 'button',
@@ -381,9 +643,9 @@ export class StreamDeckClient {
   * @example
   * /api/location/0/0/0/step?step=5
    */
-  async setButtonStep(position: ButtonPosition, step: number): Promise<void> {
+  async setButtonStep(position: ButtonPosition, step: number, options: RequestOptions = {}): Promise<void> {
     const path = `/api/location/${position.page}/${position.row}/${position.column}/step`;
-    await this.makeRequest('POST', path, undefined, { step: step.toString() });
+    await this.makeRequest('POST', path, undefined, { step: step.toString() }, { ...options, priority: options.priority ?? 'high' });
     
     this.emitEvent({
       type: 'button',
@@ -405,9 +667,12 @@ export class StreamDeckClient {
   * // query-style update
   * /api/location/0/0/0/style?text=Hello&bgcolor=%23112233
    */
-  async updateButtonStyle(position: ButtonPosition, style: ButtonStyle): Promise<void> {
+  async updateButtonStyle(position: ButtonPosition, style: ButtonStyle, options: RequestOptions = {}): Promise<void> {
+    assertValidStyle(style);
+
     // Check if this update would actually change anything
     if (!this.hasStyleChanges(position, style)) {
+      this.executionPlan?.add({ type: 'skip', position, style });
       return; // Skip the request - no changes needed
     }
 
@@ -418,11 +683,18 @@ export class StreamDeckClient {
     if (style.bgcolor !== undefined) queryParams.bgcolor = style.bgcolor;
     if (style.color !== undefined) queryParams.color = style.color;
     if (style.size !== undefined) queryParams.size = style.size.toString();
+    if (style.png64 !== undefined) queryParams.png64 = style.png64;
+    if (style.alignment !== undefined) queryParams.alignment = style.alignment;
+    if (style.pngalignment !== undefined) queryParams.pngalignment = style.pngalignment;
+    if (style.textExpression !== undefined) queryParams.textExpression = String(style.textExpression);
+    if (style.show_topbar !== undefined) queryParams.show_topbar = String(style.show_topbar);
     
-    await this.makeRequest('POST', path, undefined, queryParams);
+    const before = this.getCachedButtonState(position);
+    await this.makeRequest('POST', path, undefined, queryParams, this.styleSchedule(position, options));
     
     // Update cache with successful changes
     this.updateCachedButtonState(position, style);
+    this.recordStyleChange(position, before, style, options);
     
     this.emitEvent({
       type: 'style',
@@ -448,17 +720,29 @@ export class StreamDeckClient {
   *   // same as above using chaining
   *   await client.button(pos).text('Hi').bgcolor('#000000').color('#FFFFFF').size(18).apply();
    */
-  async updateButtonStyleBody(position: ButtonPosition, style: ButtonStyle): Promise<void> {
+  async updateButtonStyleBody(position: ButtonPosition, style: ButtonStyle, options: RequestOptions = {}): Promise<void> {
+    assertValidStyle(style);
+
     // Check if this update would actually change anything
     if (!this.hasStyleChanges(position, style)) {
+      this.executionPlan?.add({ type: 'skip', position, style });
       return; // Skip the request - no changes needed
     }
 
+    await this.sendStyleBody(position, style, options);
+  }
+
+  /**
+   * Send a body-style update without consulting the cache
+   */
+  private async sendStyleBody(position: ButtonPosition, style: ButtonStyle, options: RequestOptions): Promise<void> {
     const path = `/api/location/${position.page}/${position.row}/${position.column}/style`;
-    await this.makeRequest('POST', path, style);
+    const before = this.getCachedButtonState(position);
+    await this.makeRequest('POST', path, style, undefined, this.styleSchedule(position, options));
     
     // Update cache with successful changes
     this.updateCachedButtonState(position, style);
+    this.recordStyleChange(position, before, style, options);
     
     this.emitEvent({
       type: 'style',
@@ -481,8 +765,8 @@ export class StreamDeckClient {
   * Equivalent using the fluent API (allows chaining more changes/actions):
   *   await client.button(pos).bgcolor('#FF0000').apply();
    */
-  async setButtonBackgroundColor(position: ButtonPosition, color: string): Promise<void> {
-    await this.updateButtonStyle(position, { bgcolor: color });
+  async setButtonBackgroundColor(position: ButtonPosition, color: string, options: RequestOptions = {}): Promise<void> {
+    await this.updateButtonStyle(position, { bgcolor: color }, options);
   }
 
   /**
@@ -497,8 +781,8 @@ export class StreamDeckClient {
   * Equivalent using fluent API:
   *   await client.button(pos).color('#00FF00').apply();
    */
-  async setButtonTextColor(position: ButtonPosition, color: string): Promise<void> {
-    await this.updateButtonStyle(position, { color });
+  async setButtonTextColor(position: ButtonPosition, color: string, options: RequestOptions = {}): Promise<void> {
+    await this.updateButtonStyle(position, { color }, options);
   }
 
   /**
@@ -513,8 +797,8 @@ export class StreamDeckClient {
   * Equivalent using fluent API (you can chain additional style changes or actions):
   *   await client.button(pos).text('Hello').bgcolor('#333333').apply();
    */
-  async setButtonText(position: ButtonPosition, text: string): Promise<void> {
-    await this.updateButtonStyle(position, { text });
+  async setButtonText(position: ButtonPosition, text: string, options: RequestOptions = {}): Promise<void> {
+    await this.updateButtonStyle(position, { text }, options);
   }
 
   /**
@@ -529,8 +813,8 @@ export class StreamDeckClient {
   * Equivalent using fluent API:
   *   await client.button(pos).size(20).apply();
    */
-  async setButtonTextSize(position: ButtonPosition, size: number): Promise<void> {
-    await this.updateButtonStyle(position, { size });
+  async setButtonTextSize(position: ButtonPosition, size: number | 'auto', options: RequestOptions = {}): Promise<void> {
+    await this.updateButtonStyle(position, { size }, options);
   }
 
   // =============================================================================
@@ -541,7 +825,7 @@ export class StreamDeckClient {
    * Start a fluent builder for operations against a single button position.
    * Example: await client.button(pos).text('Hi').bgcolor('#FF0000').color('#FFFFFF').apply();
    */
-  button(position: ButtonPosition): ButtonChain {
+  button(position: ButtonPosition): ButtonChain<this> {
     return new ButtonChain(this, position);
   }
 
@@ -549,10 +833,113 @@ export class StreamDeckClient {
    * Start a fluent builder for system-wide operations (variables, surfaces, etc.).
    * Example: await client.system().setVar('status', 'live').rescanSurfaces().apply();
    */
-  system(): SystemChain {
+  system(): SystemChain<this> {
     return new SystemChain(this);
   }
 
+  /**
+   * Rebuild chains from JSON documents (one document, an array of them, or
+   * their JSON text). Documents are validated first (`INVALID_CHAIN`), and
+   * every value goes through the same checks as the fluent setters.
+   *
+   * @example
+   * const [chain] = client.loadChains(fs.readFileSync('go-live.json', 'utf8'));
+   * await chain.apply();
+   */
+  loadChains(input: unknown): Array<ButtonChain<this> | SystemChain<this>> {
+    return parseChainDocuments(input).map(document => {
+      try {
+        return document.kind === 'button' ? this.buildButtonChain(document) : this.buildSystemChain(document);
+      } catch (error) {
+        if (error instanceof StreamDeckError) throw error;
+        throw new StreamDeckError(`Invalid chain document: ${(error as Error).message}`, 'INVALID_CHAIN', undefined, document);
+      }
+    });
+  }
+
+  /**
+   * Load chain documents and apply them in order
+   */
+  async runChains(input: unknown, options: ApplyOptions = {}): Promise<void> {
+    for (const chain of this.loadChains(input)) {
+      await chain.apply(options);
+    }
+  }
+
+  private buildButtonChain(document: ButtonChainDocument): ButtonChain<this> {
+    const chain = this.button(document.position).style(document.style ?? {});
+    for (const operation of document.operations) {
+      switch (operation.type) {
+        case 'action':
+          switch (operation.action) {
+            case 'press': chain.press(); break;
+            case 'down': chain.down(); break;
+            case 'up': chain.up(); break;
+            case 'rotate-left': chain.rotateLeft(); break;
+            case 'rotate-right': chain.rotateRight(); break;
+          }
+          break;
+        case 'step': chain.step(operation.step); break;
+        case 'variable': chain.setVar(operation.name, operation.value); break;
+        case 'rescan': chain.rescanSurfaces(); break;
+        case 'fade':
+          switch (operation.fade) {
+            case 'fadeTo': chain.fadeTo(operation.color, operation.duration, operation.condition); break;
+            case 'fadeToBlack': chain.fadeToBlack(operation.duration, operation.condition); break;
+            case 'fadeSequence': chain.fadeSequence(operation.sequence, operation.condition); break;
+            case 'fadeOutIn':
+              chain.fadeOutIn(operation.color, operation.fadeOutDuration, operation.fadeInDuration, operation.condition);
+              break;
+          }
+          break;
+      }
+    }
+    return document.enabled === false ? chain.when(false) : chain;
+  }
+
+  private buildSystemChain(document: SystemChainDocument): SystemChain<this> {
+    const chain = this.system();
+    for (const operation of document.operations) {
+      if (operation.type === 'variable') chain.setVar(operation.name, operation.value);
+      else if (operation.type === 'rescan') chain.rescanSurfaces();
+    }
+    return document.enabled === false ? chain.when(false) : chain;
+  }
+
+  /**
+   * Create a fluent chain for several buttons at once: a list of positions,
+   * a grid region or a `LAYOUTS` name.
+   *
+   * @example
+   * await client.buttons({ page: 1, rows: [0, 1], columns: '*' }).bgcolor('#000000').apply();
+   * await client.buttons('STREAMDECK_XL').text('').apply();
+   */
+  buttons(selector: ButtonSelector): ButtonSelectionChain<this> {
+    return new ButtonSelectionChain(this, selector);
+  }
+
+  /**
+   * Run several button and system chains as one unit. Prior cached styles and
+   * variable values are recorded first; if any step fails they are restored
+   * and the promise rejects with `TRANSACTION_FAILED` (`response` is a
+   * `TransactionFailure` naming the failed step). Aborting `options.signal`
+   * also rolls back, then rejects with `ABORTED`.
+   *
+   * @example
+   * await client.transaction(tx => {
+   *   tx.button(pos).text('LIVE').bgcolor('#FF0000');
+   *   tx.system().setVar('show_state', 'live');
+   * });
+   */
+  async transaction(
+    build: (tx: Transaction) => void | Promise<void>,
+    options: ApplyOptions = {}
+  ): Promise<TransactionResult> {
+    const tx = new Transaction(this);
+    await build(tx);
+    return runTransaction(this, tx, options);
+  }
+
 
 
   // =============================================================================
@@ -562,9 +949,12 @@ export class StreamDeckClient {
   /**
    * Change custom variable value using query parameter
    */
-  async setCustomVariable(name: string, value: string): Promise<void> {
+  async setCustomVariable(name: string, value: string, options: RequestOptions = {}): Promise<void> {
     const path = `/api/custom-variable/${encodeURIComponent(name)}/value`;
-    await this.makeRequest('POST', path, undefined, { value });
+    const before = this.variableCache.get(name);
+    await this.makeRequest('POST', path, undefined, { value }, options);
+    this.variableCache.set(name, value);
+    this.recordVariableChange(name, before, value, options);
     
     this.emitEvent({
       type: 'variable',
@@ -577,9 +967,12 @@ export class StreamDeckClient {
   /**
    * Change custom variable value using request body
    */
-  async setCustomVariableBody(name: string, value: string): Promise<void> {
+  async setCustomVariableBody(name: string, value: string, options: RequestOptions = {}): Promise<void> {
     const path = `/api/custom-variable/${encodeURIComponent(name)}/value`;
-    await this.makeRequest('POST', path, value);
+    const before = this.variableCache.get(name);
+    await this.makeRequest('POST', path, value, undefined, options);
+    this.variableCache.set(name, value);
+    this.recordVariableChange(name, before, value, options);
     
     this.emitEvent({
       type: 'variable',
@@ -592,17 +985,26 @@ export class StreamDeckClient {
   /**
    * Get custom variable value
    */
-  async getCustomVariable(name: string): Promise<string> {
+  async getCustomVariable(name: string, options: RequestOptions = {}): Promise<string> {
     const path = `/api/custom-variable/${encodeURIComponent(name)}/value`;
-    return await this.makeRequest('GET', path);
+    const value = await this.makeRequest('GET', path, undefined, undefined, options);
+    if (typeof value === 'string') this.variableCache.set(name, value);
+    return value;
+  }
+
+  /**
+   * Last value this client set or read for a custom variable, without a request
+   */
+  getCachedVariable(name: string): string | undefined {
+    return this.variableCache.get(name);
   }
 
   /**
    * Get module variable value
    */
-  async getModuleVariable(connectionLabel: string, name: string): Promise<string> {
+  async getModuleVariable(connectionLabel: string, name: string, options: RequestOptions = {}): Promise<string> {
     const path = `/api/variable/${encodeURIComponent(connectionLabel)}/${encodeURIComponent(name)}/value`;
-    return await this.makeRequest('GET', path);
+    return await this.makeRequest('GET', path, undefined, undefined, options);
   }
 
   // =============================================================================
@@ -612,9 +1014,9 @@ export class StreamDeckClient {
   /**
    * Make Companion rescan for newly attached USB surfaces
    */
-  async rescanSurfaces(): Promise<void> {
+  async rescanSurfaces(options: RequestOptions = {}): Promise<void> {
     const path = '/api/surfaces/rescan';
-    await this.makeRequest('POST', path);
+    await this.makeRequest('POST', path, undefined, undefined, options);
     
     this.emitEvent({
       type: 'system',
@@ -628,32 +1030,22 @@ export class StreamDeckClient {
   // =============================================================================
 
   /**
-   * Execute multiple operations in sequence
+   * Execute multiple operations with bounded concurrency.
+   *
+   * Different keys run in parallel (`options.concurrency`, default 4) while
+   * operations on the same key keep their order. Consecutive style writes to
+   * the same key are merged into one request unless `options.coalesce` is false.
+   * Failures don't stop the batch; each operation's outcome is reported in the
+   * returned `BatchResult`.
+   *
+   * @example
+   * ```ts
+   * const result = await client.executeBatch(operations, { concurrency: 8 });
+   * if (result.failed > 0) console.warn(result.results.filter(r => r.status === 'rejected'));
+   * ```
    */
-  async executeBatch(operations: BatchOperation[]): Promise<void> {
-    for (const operation of operations) {
-      try {
-        if (operation.action === 'style' && operation.data) {
-          await this.updateButtonStyleBody(operation.position, operation.data as ButtonStyle);
-        } else if (operation.action === 'press') {
-          await this.pressButton(operation.position);
-        } else if (operation.action === 'down') {
-          await this.pressButtonDown(operation.position);
-        } else if (operation.action === 'up') {
-          await this.releaseButton(operation.position);
-        } else if (operation.action === 'rotate-left') {
-          await this.rotateLeft(operation.position);
-        } else if (operation.action === 'rotate-right') {
-          await this.rotateRight(operation.position);
-        }
-        
-        // Small delay between operations to prevent overwhelming the API
-        await new Promise(resolve => setTimeout(resolve, 10));
-      } catch (error) {
-        console.error(`Batch operation failed for ${JSON.stringify(operation)}:`, error);
-        // Continue with other operations
-      }
-    }
+  async executeBatch(operations: BatchOperation[], options: BatchOptions = {}): Promise<BatchResult> {
+    return runBatch(this, operations, options);
   }
 
   // =============================================================================
@@ -661,7 +1053,9 @@ export class StreamDeckClient {
   // =============================================================================
 
   /**
-   * Test connection to StreamDeck Companion
+   * Test connection to StreamDeck Companion.
+   * While the circuit is open this fails fast; once the reset timeout has
+   * passed the test request doubles as the half-open probe.
    */
   async testConnection(): Promise<ConnectionStatus> {
     try {
@@ -672,11 +1066,13 @@ export class StreamDeckClient {
       
       return {
         connected: true,
-        lastPing: Date.now() - startTime
+        lastPing: Date.now() - startTime,
+        circuit: this.getCircuitStatus()
       };
     } catch (error) {
       return {
-        connected: false
+        connected: false,
+        circuit: this.getCircuitStatus()
       };
     }
   }
@@ -734,19 +1130,42 @@ export class StreamDeckClient {
    * Add event listener for StreamDeck operations
    */
   addEventListener(listener: (event: StreamDeckEvent) => void): () => void {
-    this.eventListeners.add(listener);
-    
-    // Return unsubscribe function
-    return () => {
-      this.eventListeners.delete(listener);
-    };
+    return this.eventHub.add(listener);
   }
 
   /**
-   * Remove all event listeners
+   * Add a listener for events matching a key ('style', 'variable:set'),
+   * several keys, or a filter object. The event is typed by the key.
+   *
+   * @example
+   * client.on('variable:set', e => console.log(e.data.name, e.data.value));
+   * client.on({ type: 'style', page: 3 }, e => console.log(e.position, e.data.text));
+   */
+  on<K extends StreamDeckEventKey>(selector: EventSelector<K>, listener: (event: EventOf<K>) => void): () => void {
+    return this.eventHub.on(selector, listener);
+  }
+
+  /**
+   * Iterate over matching events with `for await`
+   *
+   * @example
+   * // Variable events have no position, so page/position filters never match them
+   * for await (const e of client.events({ type: ['button', 'style'], page: 3 })) {
+   *   dashboard.update(e);
+   * }
+   */
+  events<K extends StreamDeckEventKey = StreamDeckEventKey>(
+    selector?: EventSelector<K>,
+    options?: EventStreamOptions
+  ): AsyncIterableIterator<EventOf<K>> {
+    return this.eventHub.stream(selector, options);
+  }
+
+  /**
+   * Remove all event listeners and end active event streams
    */
   removeAllEventListeners(): void {
-    this.eventListeners.clear();
+    this.eventHub.clear();
   }
 
   /**
@@ -757,15 +1176,167 @@ export class StreamDeckClient {
       baseUrl: this.baseUrl,
       timeout: this.timeout,
       retries: this.retries,
-      defaultHeaders: { ...this.defaultHeaders }
+      defaultHeaders: { ...this.defaultHeaders },
+      transport: this.transport
     };
   }
 
+  // =============================================================================
+  // UNDO / REDO
+  // =============================================================================
+
+  /**
+   * Revert the most recent recorded style or custom variable change by
+   * resending the values cached before it. Resolves null when there is
+   * nothing to undo. Properties whose previous value the client didn't know
+   * are left as they are and listed in `unrestored`. If the request fails the
+   * change stays on the undo stack.
+   *
+   * @example
+   * ```ts
+   * await client.setButtonText(scoreButton, '3'); // meant '2'
+   * await client.undo(); // back to the previous text
+   * ```
+   */
+  async undo(options: RequestOptions = {}): Promise<HistoryResult | null> {
+    const entry = this.changeHistory.takeUndo();
+    if (!entry) return null;
+
+    try {
+      const unrestored = await this.applyHistoryEntry(entry, 'before', options);
+      this.changeHistory.pushRedo(entry);
+      return { entry, unrestored };
+    } catch (error) {
+      this.changeHistory.pushUndo(entry);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-apply the most recently undone change. Resolves null when there is
+   * nothing to redo; any new recorded change clears the redo stack.
+   */
+  async redo(options: RequestOptions = {}): Promise<HistoryResult | null> {
+    const entry = this.changeHistory.takeRedo();
+    if (!entry) return null;
+
+    try {
+      const unrestored = await this.applyHistoryEntry(entry, 'after', options);
+      this.changeHistory.pushUndo(entry);
+      return { entry, unrestored };
+    } catch (error) {
+      this.changeHistory.pushRedo(entry);
+      throw error;
+    }
+  }
+
+  /**
+   * Recorded changes: `undo` oldest first (the last one is reverted next),
+   * `redo` in the order `redo()` would re-apply them
+   */
+  history(): { undo: HistoryEntry[]; redo: HistoryEntry[] } {
+    return this.changeHistory.getEntries();
+  }
+
+  clearHistory(): void {
+    this.changeHistory.clear();
+  }
+
+  private recordStyleChange(position: ButtonPosition, before: ButtonStyle, style: ButtonStyle, options: RequestOptions): void {
+    if (!(options.history ?? options.priority !== 'animation')) return;
+
+    const previous: ButtonStyle = {};
+    const after: ButtonStyle = {};
+    for (const property of Object.keys(style) as Array<keyof ButtonStyle>) {
+      if (style[property] === undefined || before[property] === style[property]) continue;
+      Object.assign(after, { [property]: style[property] });
+      if (before[property] !== undefined) Object.assign(previous, { [property]: before[property] });
+    }
+    if (Object.keys(after).length === 0) return;
+
+    this.changeHistory.record({ type: 'style', position: { ...position }, before: previous, after, timestamp: Date.now() });
+  }
+
+  private recordVariableChange(name: string, before: string | undefined, value: string, options: RequestOptions): void {
+    if (!(options.history ?? options.priority !== 'animation') || before === value) return;
+    this.changeHistory.record({ type: 'variable', name, before, after: value, timestamp: Date.now() });
+  }
+
+  /**
+   * Send one side of a history entry without recording it again. Returns
+   * what could not be restored because its value was unknown.
+   */
+  private async applyHistoryEntry(entry: HistoryEntry, side: 'before' | 'after', options: RequestOptions): Promise<string[]> {
+    const writeOptions: RequestOptions = { priority: 'high', ...options, history: false };
+
+    if (entry.type === 'variable') {
+      const value = entry[side];
+      if (value === undefined) return [`variable ${entry.name}`];
+      await this.setCustomVariable(entry.name, value, writeOptions);
+      return [];
+    }
+
+    const style = entry[side];
+    const unrestored = (Object.keys(entry.after) as Array<keyof ButtonStyle>).filter(property => style[property] === undefined);
+    if (Object.keys(style).length > 0) await this.sendStyleBody(entry.position, style, writeOptions);
+    return unrestored;
+  }
+
+  // =============================================================================
+  // DRY RUN
+  // =============================================================================
+
+  /**
+   * Whether this client records requests instead of sending them
+   */
+  isDryRun(): boolean {
+    return this.executionPlan !== null;
+  }
+
+  /**
+   * The requests recorded so far by a dry-run client (`dryRun: true`),
+   * or null for a live client
+   */
+  getPlan(): ExecutionPlan | null {
+    return this.executionPlan;
+  }
+
+  /**
+   * Run `run` against a dry-run copy of this client and return the requests
+   * it would have sent. The copy starts from this client's button and
+   * variable cache, so updates the cache would skip show up as skipped.
+   * Nothing is sent and this client's cache is left as it was.
+   *
+   * @example
+   * ```ts
+   * const plan = await client.plan(dry => createEsportsScoreboard(dry, config));
+   * console.log(plan.toString());
+   * ```
+   */
+  async plan(run: (client: StreamDeckClient) => unknown): Promise<ExecutionPlan> {
+    const dry = new StreamDeckClient({
+      baseUrl: this.baseUrl,
+      timeout: this.timeout,
+      retries: 1,
+      defaultHeaders: this.defaultHeaders,
+      enableCaching: this.cachingEnabled,
+      cacheTTL: this.cacheTTL,
+      nonBlockingAnimations: this.nonBlockingAnimations,
+      circuitBreaker: false,
+      dryRun: true
+    });
+    dry.buttonStateCache = new Map(this.buttonStateCache);
+    dry.variableCache = new Map(this.variableCache);
+
+    await run(dry);
+    return dry.executionPlan as ExecutionPlan;
+  }
+
   /**
    * Lazy-create and return an Animator tied to this client.
    * Uses dynamic import to avoid circular module load issues.
    */
-  async getAnimator(fps: number = 15): Promise<any> {
+  async getAnimator(fps: number = 15): Promise<Animator> {
     if (this._animator) return this._animator;
     const mod = await import('./animator');
     this._animator = new mod.Animator(this, fps);
@@ -813,7 +1384,7 @@ export class StreamDeckClient {
     protocol: 'tcp' | 'udp' = 'tcp',
     host: string = 'localhost',
     port: number = 16759
-  ): Promise<any> {
+  ): Promise<RemoteClient> {
     const capabilities = StreamDeckClient.getRemoteCapabilities();
     
     if (!capabilities.available) {
@@ -851,7 +1422,7 @@ export class StreamDeckClient {
   /**
    * Get the current direct client instance (if any)
    */
-  getDirectClient(): any | null {
+  getDirectClient(): RemoteClient | null {
     return this._remoteClient || null;
   }
 
@@ -860,6 +1431,153 @@ export class StreamDeckClient {
   getRemoteClient = this.getDirectClient;
 }
 
+/**
+ * How a failed request affects the circuit breaker: 'unreachable' when
+ * Companion could not be reached or didn't answer in time, 'reachable' when
+ * it answered with a client error (4xx), 'ignored' when the request never got
+ * to the transport.
+ */
+function classifyFailure(error: unknown): 'unreachable' | 'reachable' | 'ignored' {
+  if (!(error instanceof StreamDeckError)) return 'ignored';
+  if (error.code === 'TIMEOUT') return 'unreachable';
+  if (error.code !== 'REQUEST_FAILED') return 'ignored';
+  const cause = error.response;
+  if (cause instanceof StreamDeckError && cause.code === 'HTTP_ERROR' && (cause.statusCode ?? 500) < 500) {
+    return 'reachable';
+  }
+  return 'unreachable';
+}
+
+// Animators for surfaces that don't manage their own (e.g. RemoteClient)
+const surfaceAnimators = new WeakMap<ControlSurface, Animator>();
+
+// Request options for animation frames sent by chains
+const ANIMATION_FRAME: RequestOptions = { priority: 'animation' };
+
+/**
+ * Whether an error is a stale animation frame dropped by the scheduler.
+ * Those are expected under load and not worth a warning.
+ */
+function isDroppedFrame(error: unknown): boolean {
+  return error instanceof StreamDeckError && error.code === 'REQUEST_DROPPED';
+}
+
+/**
+ * Frame errors that fire-and-forget animations don't warn about: dropped or
+ * cancelled frames, and frames refused by an open circuit (already reported
+ * as a `system` event).
+ */
+function isQuietFrameError(error: unknown): boolean {
+  return isDroppedFrame(error) || isAbortError(error) || (error instanceof StreamDeckError && error.code === 'CIRCUIT_OPEN');
+}
+
+/**
+ * Swallow dropped-frame rejections in awaited (blocking) animation frames
+ */
+function rethrowUnlessDropped(error: unknown): void {
+  if (!isDroppedFrame(error)) throw error;
+}
+
+/**
+ * Whether animation frames should be sent fire-and-forget for this surface.
+ * Only StreamDeckClient has a setting; other surfaces use the default (true).
+ */
+function isNonBlocking(surface: ControlSurface): boolean {
+  return surface instanceof StreamDeckClient ? surface.isNonBlockingAnimationsEnabled() : true;
+}
+
+/**
+ * Resolve the shared Animator for a surface, lazily creating one when the
+ * surface doesn't provide `getAnimator()` itself.
+ */
+async function getAnimatorFor(surface: ControlSurface): Promise<Animator> {
+  if (surface instanceof StreamDeckClient) return surface.getAnimator();
+  let animator = surfaceAnimators.get(surface);
+  if (!animator) {
+    const mod = await import('./animator');
+    animator = new mod.Animator(surface);
+    surfaceAnimators.set(surface, animator);
+  }
+  return animator;
+}
+
+/**
+ * Evaluate a chain's `when`/`unless` state. A throwing async predicate
+ * disables the chain.
+ */
+async function evaluateChainCondition(
+  enabled: boolean,
+  condition?: () => boolean,
+  asyncCondition?: () => Promise<boolean>
+): Promise<boolean> {
+  if (asyncCondition) {
+    try {
+      return Boolean(await asyncCondition());
+    } catch {
+      return false;
+    }
+  }
+  return condition ? Boolean(condition()) : enabled;
+}
+
+/**
+ * Reject a malformed style before it reaches Companion (`INVALID_STYLE`)
+ */
+function assertValidStyle(style: ButtonStyle): void {
+  const errors = buttonStyleErrors(style);
+  if (errors.length > 0) {
+    throw new StreamDeckError(`Invalid button style: ${errors.join('; ')}`, 'INVALID_STYLE', undefined, style);
+  }
+}
+
+function assertSerializableCondition(condition?: () => boolean, asyncCondition?: () => Promise<boolean>): void {
+  if (condition || asyncCondition) {
+    throw new StreamDeckError('Cannot serialize a chain with a function condition', 'NOT_SERIALIZABLE');
+  }
+}
+
+/**
+ * Send one non-fade chain step to a surface. Button steps need `position`.
+ */
+async function runSurfaceOperation(
+  surface: ControlSurface,
+  operation: ChainOperation,
+  options: RequestOptions,
+  position?: ButtonPosition
+): Promise<void> {
+  const target = () => {
+    if (!position) throw new StreamDeckError(`Chain step '${operation.type}' needs a button position`, 'INVALID_OPERATION');
+    return position;
+  };
+
+  switch (operation.type) {
+    case 'style':
+      // Use body-style update for combined fields
+      await surface.updateButtonStyleBody(target(), operation.style, options);
+      break;
+    case 'action':
+      switch (operation.action) {
+        case 'press': await surface.pressButton(target(), options); break;
+        case 'down': await surface.pressButtonDown(target(), options); break;
+        case 'up': await surface.releaseButton(target(), options); break;
+        case 'rotate-left': await surface.rotateLeft(target(), options); break;
+        case 'rotate-right': await surface.rotateRight(target(), options); break;
+      }
+      break;
+    case 'step':
+      await surface.setButtonStep(target(), operation.step, options);
+      break;
+    case 'variable':
+      await surface.setCustomVariable(operation.name, operation.value, options);
+      break;
+    case 'rescan':
+      await surface.rescanSurfaces(options);
+      break;
+    case 'fade':
+      throw new StreamDeckError('Fade steps run on a ButtonChain', 'INVALID_OPERATION');
+  }
+}
+
 /**
  * Fluent builder for button operations (styles + basic actions).
  * Collects style changes and can apply them in one request.
@@ -881,16 +1599,16 @@ export class StreamDeckClient {
  * The fluent style is handy when you want to set multiple fields or run an
  * action right after styling without multiple separate calls.
  */
-export class ButtonChain {
-  private client: StreamDeckClient;
+export class ButtonChain<C extends ControlSurface = StreamDeckClient> {
+  private client: C;
   private position: ButtonPosition;
   private styleChanges: Partial<ButtonStyle> = {};
-  private operations: Array<{ type: 'action' | 'fade'; data: any }> = [];
+  private operations: ChainOperation[] = [];
   private enabled = true;
   private condition?: () => boolean;
   private asyncCondition?: () => Promise<boolean>;
 
-  constructor(client: StreamDeckClient, position: ButtonPosition) {
+  constructor(client: C, position: ButtonPosition) {
     this.client = client;
     this.position = position;
   }
@@ -940,19 +1658,104 @@ export class ButtonChain {
   return this;
   }
 
-  size(size: number, enabled: boolean = true): this {
-  /** Set the text size (integer 1-72).
+  size(size: number | 'auto', enabled: boolean = true): this {
+  /** Set the text size (integer 1-72), or 'auto' to fit the text to the button.
    *
    * @example
    * /api/location/0/0/0/style?size=20
    */
   if (!enabled) return this; // Skip if disabled
-  if (typeof size !== 'number' || !Number.isFinite(size)) throw new TypeError('size must be a finite number');
+  if (size === 'auto') {
+    this.styleChanges.size = size;
+    return this;
+  }
+  if (typeof size !== 'number' || !Number.isFinite(size)) throw new TypeError(`size must be a finite number or 'auto'`);
   if (!Number.isInteger(size) || size <= 0 || size > 72) throw new RangeError('size must be an integer between 1 and 72');
   this.styleChanges.size = size;
   return this;
   }
 
+  /**
+   * Set the button image from a PNG data URL (`data:image/png;base64,...`).
+   * Pass '' to remove the image.
+   *
+   * @example
+   * client.button(pos).png64(`data:image/png;base64,${fs.readFileSync('logo.png', 'base64')}`).apply();
+   */
+  png64(png: string, enabled: boolean = true): this {
+    if (!enabled) return this; // Skip if disabled
+    if (typeof png !== 'string') throw new TypeError('png64 must be a string');
+    const error = styleError('png64', png);
+    if (error) throw new RangeError(error);
+    this.styleChanges.png64 = png;
+    return this;
+  }
+
+  /**
+   * Set where the text sits on the button, e.g. 'center:top'
+   */
+  alignment(alignment: ButtonAlignment, enabled: boolean = true): this {
+    if (!enabled) return this; // Skip if disabled
+    const error = styleError('alignment', alignment);
+    if (error) throw new RangeError(error);
+    this.styleChanges.alignment = alignment;
+    return this;
+  }
+
+  /**
+   * Set where the `png64` image sits on the button, e.g. 'center:bottom'
+   */
+  pngalignment(alignment: ButtonAlignment, enabled: boolean = true): this {
+    if (!enabled) return this; // Skip if disabled
+    const error = styleError('pngalignment', alignment);
+    if (error) throw new RangeError(error);
+    this.styleChanges.pngalignment = alignment;
+    return this;
+  }
+
+  /**
+   * Treat the text as a Companion expression (e.g. `$(internal:time_hms)`)
+   */
+  textExpression(expression: boolean = true, enabled: boolean = true): this {
+    if (!enabled) return this; // Skip if disabled
+    if (typeof expression !== 'boolean') throw new TypeError('textExpression must be a boolean');
+    this.styleChanges.textExpression = expression;
+    return this;
+  }
+
+  /**
+   * Show or hide the top bar, or 'default' to follow Companion's setting
+   */
+  showTopbar(show: boolean | 'default', enabled: boolean = true): this {
+    if (!enabled) return this; // Skip if disabled
+    if (typeof show !== 'boolean' && show !== 'default') throw new TypeError(`show_topbar must be a boolean or 'default'`);
+    this.styleChanges.show_topbar = show;
+    return this;
+  }
+
+  /**
+   * Set several style properties at once. Each property is validated like
+   * its own setter (`text`, `bgcolor`, `png64`, `showTopbar`, ...).
+   *
+   * @example
+   * client.button(pos).style({ text: 'Hi', bgcolor: '#000000', alignment: 'center:top' }).apply();
+   */
+  style(style: ButtonStyle, enabled: boolean = true): this {
+    if (!enabled) return this; // Skip if disabled
+    const unknown = Object.keys(style).filter(property => !BUTTON_STYLE_PROPERTIES.includes(property as keyof ButtonStyle));
+    if (unknown.length > 0) throw new TypeError(`Unknown style property: ${unknown.join(', ')}`);
+    if (style.text !== undefined) this.text(style.text);
+    if (style.bgcolor !== undefined) this.bgcolor(style.bgcolor);
+    if (style.color !== undefined) this.color(style.color);
+    if (style.size !== undefined) this.size(style.size);
+    if (style.png64 !== undefined) this.png64(style.png64);
+    if (style.alignment !== undefined) this.alignment(style.alignment);
+    if (style.pngalignment !== undefined) this.pngalignment(style.pngalignment);
+    if (style.textExpression !== undefined) this.textExpression(style.textExpression);
+    if (style.show_topbar !== undefined) this.showTopbar(style.show_topbar);
+    return this;
+  }
+
   // Action enqueuers
   press(enabled: boolean = true): this {
   /** Queue a press action to run after styles are applied.
@@ -961,7 +1764,7 @@ export class ButtonChain {
    * /api/location/0/0/0/press
    */
   if (!enabled) return this; // Skip if disabled
-  this.operations.push({ type: 'action', data: () => this.client.pressButton(this.position) });
+  this.operations.push({ type: 'action', action: 'press' });
     return this;
   }
 
@@ -972,7 +1775,7 @@ export class ButtonChain {
    * /api/location/0/0/0/down
    */
   if (!enabled) return this; // Skip if disabled
-  this.operations.push({ type: 'action', data: () => this.client.pressButtonDown(this.position) });
+  this.operations.push({ type: 'action', action: 'down' });
     return this;
   }
 
@@ -983,7 +1786,7 @@ export class ButtonChain {
    * /api/location/0/0/0/up
    */
   if (!enabled) return this; // Skip if disabled
-  this.operations.push({ type: 'action', data: () => this.client.releaseButton(this.position) });
+  this.operations.push({ type: 'action', action: 'up' });
     return this;
   }
 
@@ -994,7 +1797,7 @@ export class ButtonChain {
    * /api/location/0/0/0/rotate-left
    */
   if (!enabled) return this; // Skip if disabled
-  this.operations.push({ type: 'action', data: () => this.client.rotateLeft(this.position) });
+  this.operations.push({ type: 'action', action: 'rotate-left' });
     return this;
   }
 
@@ -1005,7 +1808,7 @@ export class ButtonChain {
    * /api/location/0/0/0/rotate-right
    */
   if (!enabled) return this; // Skip if disabled
-  this.operations.push({ type: 'action', data: () => this.client.rotateRight(this.position) });
+  this.operations.push({ type: 'action', action: 'rotate-right' });
     return this;
   }
 
@@ -1017,66 +1820,101 @@ export class ButtonChain {
    */
   if (!enabled) return this; // Skip if disabled
   if (typeof n !== 'number' || !Number.isFinite(n) || !Number.isInteger(n)) throw new TypeError('step must be an integer');
-  this.operations.push({ type: 'action', data: () => this.client.setButtonStep(this.position, n) });
+  this.operations.push({ type: 'step', step: n });
   return this;
   }
 
   /**
    * Apply collected style changes and then execute queued actions and fade operations in sequence.
    * If no style changes were made, only actions and fades run.
+   *
+   * Pass `{ signal }` to cancel: remaining steps are skipped, queued requests
+   * and fade frames are cancelled and the promise rejects with code `ABORTED`.
+   */
+  async apply(options: ApplyOptions = {}): Promise<void> {
+    const { signal } = options;
+    const operations = await this.resolveOperations();
+    if (operations.length === 0) return;
+    throwIfAborted(signal);
+
+    // Style changes run first (one body-style request), then queued operations in order
+    for (const operation of operations) {
+      throwIfAborted(signal);
+      await this.runOperation(operation, signal);
+      // small delay to avoid overwhelming the API
+      if (operation.type !== 'style') await delay(10, signal);
+    }
+  }
+
+  /**
+   * The button this chain targets
+   */
+  getPosition(): ButtonPosition {
+    return { ...this.position };
+  }
+
+  /**
+   * Export the chain as a JSON document (see `client.loadChains()`). Throws
+   * `NOT_SERIALIZABLE` when the chain uses function conditions.
+   */
+  toJSON(): ButtonChainDocument {
+    assertSerializableCondition(this.condition, this.asyncCondition);
+    return {
+      version: CHAIN_DOCUMENT_VERSION,
+      kind: 'button',
+      position: this.getPosition(),
+      ...(this.enabled ? {} : { enabled: false }),
+      style: { ...this.styleChanges },
+      operations: this.operations.map(serializeOperation)
+    };
+  }
+
+  /**
+   * The steps `apply()` would run right now: conditions are evaluated, the
+   * collected style changes come first as one 'style' step. Empty when the
+   * chain is disabled.
    */
-  async apply(): Promise<void> {
+  async resolveOperations(): Promise<ChainOperation[]> {
     // Evaluate condition (if supplied) lazily at apply time. This allows
     // .when(() => expensiveCheck()) usage as well as simple booleans via
     // .when(true/false), and supports async predicates via whenAsync().
-    let finalEnabled = this.enabled;
-    if (this.asyncCondition) {
-      try {
-        finalEnabled = Boolean(await this.asyncCondition());
-      } catch {
-        finalEnabled = false;
-      }
-    } else if (this.condition) {
-      finalEnabled = Boolean(this.condition());
-    }
+    if (!(await evaluateChainCondition(this.enabled, this.condition, this.asyncCondition))) return [];
 
-    if (!finalEnabled) return;
-    
-    // Apply initial style changes first
+    const operations: ChainOperation[] = [];
     if (Object.keys(this.styleChanges).length > 0) {
-      // Use body-style update for combined fields
-      await this.client.updateButtonStyleBody(this.position, this.styleChanges as ButtonStyle);
+      operations.push({ type: 'style', style: { ...this.styleChanges } });
     }
+    return operations.concat(this.operations);
+  }
 
-    // Execute operations in the order they were added
-    for (const operation of this.operations) {
-      if (operation.type === 'action') {
-        await operation.data();
-      } else if (operation.type === 'fade') {
-        await this.executeFadeOperation(operation.data);
-      }
-      // small delay to avoid overwhelming the API
-      await new Promise(resolve => setTimeout(resolve, 10));
+  /**
+   * Run a single step against this chain's button
+   */
+  async runOperation(operation: ChainOperation, signal?: AbortSignal): Promise<void> {
+    if (operation.type === 'fade') {
+      await this.executeFadeOperation(operation, signal);
+    } else {
+      await runSurfaceOperation(this.client, operation, { signal }, this.position);
     }
   }
 
   /**
    * Execute a queued fade operation
    */
-  private async executeFadeOperation(fade: { type: string; params: any[] }): Promise<void> {
-    switch (fade.type) {
+  private async executeFadeOperation(fade: FadeOperation, signal?: AbortSignal): Promise<void> {
+    switch (fade.fade) {
       case 'fadeTo':
-        await this.executeActualFadeTo(fade.params[0], fade.params[1], fade.params[2]);
+        await this.executeActualFadeTo(fade.color, fade.duration, fade.condition, signal);
         break;
       case 'fadeToBlack':
-        await this.executeActualFadeTo('#000000', fade.params[0], fade.params[1]);
+        await this.executeActualFadeTo('#000000', fade.duration, fade.condition, signal);
         break;
       case 'fadeSequence':
-        await this.executeActualFadeSequence(fade.params[0], fade.params[1]);
+        await this.executeActualFadeSequence(fade.sequence, fade.condition, signal);
         break;
       case 'fadeOutIn':
-        await this.executeActualFadeTo('#000000', fade.params[1], fade.params[3]); // fade out
-        await this.executeActualFadeTo(fade.params[0], fade.params[2], fade.params[3]); // fade in
+        await this.executeActualFadeTo('#000000', fade.fadeOutDuration, fade.condition, signal); // fade out
+        await this.executeActualFadeTo(fade.color, fade.fadeInDuration, fade.condition, signal); // fade in
         break;
     }
   }
@@ -1087,7 +1925,8 @@ export class ButtonChain {
   private async executeActualFadeTo(
     targetColor: string,
     duration: number = 1000,
-    condition?: boolean | (() => boolean) | (() => Promise<boolean>)
+    condition?: boolean | (() => boolean) | (() => Promise<boolean>),
+    signal?: AbortSignal
   ): Promise<void> {
     // Evaluate condition
     let shouldRun = true;
@@ -1125,9 +1964,13 @@ export class ButtonChain {
     
     // Track last sent color to avoid duplicate requests
     let lastSentColor: string | undefined;
+    // Frames carry the caller's signal so aborting cancels queued/in-flight ones
+    const frameOptions: RequestOptions = { ...ANIMATION_FRAME, signal };
 
     // Interpolate colors over time
     for (let frame = 0; frame <= frameCount; frame++) {
+      throwIfAborted(signal);
+
       // Re-check condition each frame for responsive cancellation
       if (condition && typeof condition === 'function') {
         try {
@@ -1154,15 +1997,15 @@ export class ButtonChain {
           // Apply the interpolated color while preserving other properties
           const frameStyle = { ...this.styleChanges, bgcolor: interpolatedColor };
           
-          if (this.client.isNonBlockingAnimationsEnabled()) {
+          if (isNonBlocking(this.client)) {
             // Fire-and-forget HTTP request to avoid blocking animation timing
-            this.client.updateButtonStyleBody(this.position, frameStyle).catch(error => {
+            this.client.updateButtonStyleBody(this.position, frameStyle, frameOptions).catch(error => {
               // Don't stop animation on network errors, just log and continue
-              console.warn('Fade animation network error:', error);
+              if (!isQuietFrameError(error)) console.warn('Fade animation network error:', error);
             });
           } else {
             // Wait for HTTP response (more reliable but may cause stuttering)
-            await this.client.updateButtonStyleBody(this.position, frameStyle);
+            await this.client.updateButtonStyleBody(this.position, frameStyle, frameOptions);
           }
           
           lastSentColor = interpolatedColor;
@@ -1171,13 +2014,13 @@ export class ButtonChain {
           this.styleChanges.bgcolor = interpolatedColor;
         } catch (error) {
           // Don't stop animation on network errors, just log and continue
-          console.warn('Fade animation network error:', error);
+          if (!isQuietFrameError(error)) console.warn('Fade animation network error:', error);
         }
       }
       
       // Wait for next frame (except on last frame)
       if (frame < frameCount) {
-        await new Promise(resolve => setTimeout(resolve, frameDelay));
+        await delay(frameDelay, signal);
       }
     }
   }
@@ -1187,15 +2030,16 @@ export class ButtonChain {
    */
   private async executeActualFadeSequence(
     sequence: Array<{ color: string; duration: number }>,
-    condition?: boolean | (() => boolean) | (() => Promise<boolean>)
+    condition?: boolean | (() => boolean) | (() => Promise<boolean>),
+    signal?: AbortSignal
   ): Promise<void> {
     for (let i = 0; i < sequence.length; i++) {
       const step = sequence[i];
-      await this.executeActualFadeTo(step.color, step.duration, condition);
+      await this.executeActualFadeTo(step.color, step.duration, condition, signal);
       
       // Small pause between sequence steps for smoother transitions
       if (i < sequence.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 50));
+        await delay(50, signal);
       }
     }
   }
@@ -1203,8 +2047,8 @@ export class ButtonChain {
   /**
    * Convenience: apply and return the client for further chaining across buttons
    */
-  async applyAndContinue(): Promise<StreamDeckClient> {
-    await this.apply();
+  async applyAndContinue(options: ApplyOptions = {}): Promise<C> {
+    await this.apply(options);
     return this.client;
   }
 
@@ -1269,7 +2113,8 @@ export class ButtonChain {
    * will be animated, leaving others (like text) unchanged.
    *
    * ## Parameters
-   * @param presetOrStyle - Preset key (string) or a `ButtonStyle` object.
+   * @param presetOrStyle - Preset key (string), a `ButtonStyle` object, or an
+   *   array of keyframes (`{ at, style, easing }`, `at` from 0 to 1) run on the Animator.
    * @param duration - Duration in milliseconds for the animation (default: 1000).
    * @param opts - Options object or inline condition. Options may include:
    *   - `type`: 'flash' | 'pulse' | 'fade' | 'rainbow'
@@ -1278,6 +2123,7 @@ export class ButtonChain {
    *   - `revertTo`: preset key or style to revert to
    *   - `fromColor`, `toColor`: color overrides for fades
    *   - `preserveExisting`: boolean (default: true) to merge with current button state
+   *   - `signal`: AbortSignal that stops the animation and cancels its pending frames
    *   Alternatively `opts` may be a boolean, a sync predicate `() => boolean` or
    *   an async predicate `() => Promise<boolean>` which is evaluated before running.
    *
@@ -1293,18 +2139,25 @@ export class ButtonChain {
    * // continuous fade loop; get a stop handle
    * const stop = await client.button(pos).animate({ bgcolor: '#112233' }, 800, { type: 'fade', loop: true });
    * // later: stop();
+   *
+   * // keyframes with easing: grow and flash gold, then settle back
+   * await client.button(pos).text('GOAL').animate([
+   *   { at: 0, style: { bgcolor: '#000000', size: 14 }, easing: 'easeOutElastic' },
+   *   { at: 0.5, style: { bgcolor: '#FFD700', size: 28 }, easing: 'easeInCubic' },
+   *   { at: 1, style: { bgcolor: '#000000', size: 14 } }
+   * ], 1500);
    * ```
    */
   async animate(
-    presetOrStyle: keyof any | ButtonStyle,
+    presetOrStyle: keyof any | ButtonStyle | Keyframe[],
     duration: number = 1000,
-    opts: boolean | (() => boolean) | (() => Promise<boolean>) | { type?: 'flash' | 'pulse' | 'fade' | 'rainbow'; intervals?: number; loop?: boolean; revertTo?: keyof any | ButtonStyle; fromColor?: string; toColor?: string; preserveExisting?: boolean } = {}
+    opts: boolean | (() => boolean) | (() => Promise<boolean>) | { type?: 'flash' | 'pulse' | 'fade' | 'rainbow'; intervals?: number; loop?: boolean; revertTo?: keyof any | ButtonStyle; fromColor?: string; toColor?: string; preserveExisting?: boolean; signal?: AbortSignal } = {}
   ): Promise<(() => void) | void> {
     // Normalize inline predicate vs options. Allow calling .animate(..., true) or
     // .animate(..., () => condition) or .animate(..., async () => await check())
     let inlineSyncCondition: (() => boolean) | undefined;
     let inlineAsyncCondition: (() => Promise<boolean>) | undefined;
-    let options: { type?: 'flash' | 'pulse' | 'fade' | 'rainbow'; intervals?: number; loop?: boolean; revertTo?: keyof any | ButtonStyle; fromColor?: string; toColor?: string; preserveExisting?: boolean } = {};
+    let options: { type?: 'flash' | 'pulse' | 'fade' | 'rainbow'; intervals?: number; loop?: boolean; revertTo?: keyof any | ButtonStyle; fromColor?: string; toColor?: string; preserveExisting?: boolean; signal?: AbortSignal } = {};
 
     if (typeof opts === 'boolean') {
       inlineSyncCondition = () => opts;
@@ -1340,6 +2193,14 @@ export class ButtonChain {
     }
 
     if (!finalEnabled) return undefined;
+
+    const signal = options.signal;
+    throwIfAborted(signal);
+
+    if (Array.isArray(presetOrStyle)) {
+      const stillEnabled = inlineAsyncCondition ?? (inlineSyncCondition ? async () => inlineSyncCondition!() : undefined);
+      return this.animateKeyframes(presetOrStyle, duration, options.loop ?? false, signal, stillEnabled);
+    }
     
     // Resolve presets dynamically to avoid circular import issues at module load
     const utils = await import('./utils');
@@ -1384,31 +2245,32 @@ export class ButtonChain {
   const half = Math.round(duration / (intervals * 2));
 
     let stopped = false;
+    const frameOptions: RequestOptions = { ...ANIMATION_FRAME, signal };
 
     const runOnce = async () => {
       for (let i = 0; i < intervals && !stopped; i++) {
-        if (this.client.isNonBlockingAnimationsEnabled()) {
+        if (isNonBlocking(this.client)) {
           // Fire-and-forget requests to avoid blocking animation timing
-          this.client.updateButtonStyleBody(this.position, target).catch(error => {
-            console.warn('Flash animation network error (target):', error);
+          this.client.updateButtonStyleBody(this.position, target, frameOptions).catch(error => {
+            if (!isQuietFrameError(error)) console.warn('Flash animation network error (target):', error);
           });
         } else {
           // Wait for HTTP response (more reliable but may cause stuttering)
-          await this.client.updateButtonStyleBody(this.position, target);
+          await this.client.updateButtonStyleBody(this.position, target, frameOptions).catch(rethrowUnlessDropped);
         }
         
-        await new Promise(r => setTimeout(r, half));
+        await delay(half, signal);
         if (stopped) break;
         
-        if (this.client.isNonBlockingAnimationsEnabled()) {
-          this.client.updateButtonStyleBody(this.position, revert).catch(error => {
-            console.warn('Flash animation network error (revert):', error);
+        if (isNonBlocking(this.client)) {
+          this.client.updateButtonStyleBody(this.position, revert, frameOptions).catch(error => {
+            if (!isQuietFrameError(error)) console.warn('Flash animation network error (revert):', error);
           });
         } else {
-          await this.client.updateButtonStyleBody(this.position, revert);
+          await this.client.updateButtonStyleBody(this.position, revert, frameOptions).catch(rethrowUnlessDropped);
         }
         
-        await new Promise(r => setTimeout(r, half));
+        await delay(half, signal);
       }
     };
 
@@ -1421,42 +2283,45 @@ export class ButtonChain {
 
       // Prefer Animator for continuous loops when possible. Choose the right animator method by type.
       try {
-        const animator = await this.client.getAnimator();
-        let id: string | undefined;
+        const animator = await getAnimatorFor(this.client);
+        let animation: AnimationHandle | undefined;
 
   if (options.type === 'rainbow') {
-          id = animator.createRainbow(this.position, { ...resolvedTarget }, {
+          animation = animator.createRainbow(this.position, { ...resolvedTarget }, {
             duration,
             loop: true,
-            intervals: options.intervals ?? 1
+            intervals: options.intervals ?? 1,
+            signal
           });
   } else if (options.type === 'fade' || (fromColor && toColor)) {
           // fade between fromColor -> toColor
-          id = animator.createFade(this.position, { ...resolvedTarget }, {
+          animation = animator.createFade(this.position, { ...resolvedTarget }, {
             duration,
             loop: true,
             fromColor: fromColor ?? '#000000',
             toColor: toColor ?? '#000000',
-            intervals: options.intervals ?? 1
+            intervals: options.intervals ?? 1,
+            signal
           });
         } else {
           // default to flash/pulse using createFlash
           const flashColor = options.fromColor ?? resolvedTarget.bgcolor ?? '#FFFFFF';
-          id = animator.createFlash(this.position, { ...resolvedTarget }, {
+          animation = animator.createFlash(this.position, { ...resolvedTarget }, {
             duration,
             loop: true,
             flashColor,
-            intervals: options.intervals ?? 2
+            intervals: options.intervals ?? 2,
+            signal
           });
         }
 
-        if (id) {
+        if (animation) {
           // If an inline predicate was provided, start a watcher that stops
           // the animation when the predicate becomes false.
           let watcherStop = false;
           if (inlineAsyncCondition || inlineSyncCondition) {
             (async () => {
-              while (!watcherStop) {
+              while (!watcherStop && !signal?.aborted) {
                 let ok = true;
                 try {
                   if (inlineAsyncCondition) ok = Boolean(await inlineAsyncCondition());
@@ -1465,7 +2330,7 @@ export class ButtonChain {
                   ok = false;
                 }
                 if (!ok) {
-                  try { animator.stopAnimation(id as string); } catch {}
+                  animation?.stop();
                   break;
                 }
                 // Re-check at reasonable intervals (half the duration)
@@ -1476,14 +2341,15 @@ export class ButtonChain {
 
           return () => {
             watcherStop = true;
-            try { animator.stopAnimation(id as string); } catch {}
+            animation?.stop();
           };
         }
       } catch (e) {
         // If Animator isn't available or fails, fall back to the simple loop below
       }
 
-      // fallback: run in background until stopped, but re-evaluate inline predicate
+      // fallback: run in background until stopped or aborted, but re-evaluate inline predicate
+      signal?.addEventListener('abort', () => { stopped = true; }, { once: true });
       (async () => {
         while (!stopped) {
           // If inline predicate exists, check before each iteration
@@ -1512,6 +2378,46 @@ export class ButtonChain {
     return undefined;
   }
 
+  /**
+   * Keyframe branch of `animate()`: runs on the Animator starting from the
+   * chain's pending style. A loop resolves to a stop function (and stops
+   * when `stillEnabled` turns false); a single run resolves once its last
+   * frame has been sent, and rejects with `ABORTED` if it is stopped first.
+   */
+  private async animateKeyframes(
+    keyframes: Keyframe[],
+    duration: number,
+    loop: boolean,
+    signal?: AbortSignal,
+    stillEnabled?: () => Promise<boolean>
+  ): Promise<(() => void) | void> {
+    const animator = await getAnimatorFor(this.client);
+    const base: ButtonStyle = { ...this.styleChanges };
+
+    if (!loop) {
+      const end = await animator.createKeyframes(this.position, base, { keyframes, duration, signal }).finished;
+      if (end === 'stopped') throw abortError(signal);
+      return undefined;
+    }
+
+    const animation = animator.createKeyframes(this.position, base, { keyframes, duration, loop: true, signal });
+    let watching = stillEnabled !== undefined;
+    (async () => {
+      while (watching && !signal?.aborted) {
+        await new Promise(r => setTimeout(r, Math.max(200, Math.round(duration / 2))));
+        if (watching && !(await stillEnabled!().catch(() => false))) {
+          animation.stop();
+          break;
+        }
+      }
+    })().catch(() => {});
+
+    return () => {
+      watching = false;
+      animation.stop();
+    };
+  }
+
   /**
    * Convenience method to animate just the background color while preserving all other properties.
    * This is a shortcut for .animate({ bgcolor: color }, duration, opts).
@@ -1582,10 +2488,7 @@ export class ButtonChain {
     duration: number = 1000,
     condition?: boolean | (() => boolean) | (() => Promise<boolean>)
   ): this {
-    this.operations.push({
-      type: 'fade',
-      data: { type: 'fadeTo', params: [targetColor, duration, condition] }
-    });
+    this.operations.push({ type: 'fade', fade: 'fadeTo', color: targetColor, duration, condition });
     return this;
   }
 
@@ -1614,10 +2517,7 @@ export class ButtonChain {
     sequence: Array<{ color: string; duration: number }>,
     condition?: boolean | (() => boolean) | (() => Promise<boolean>)
   ): this {
-    this.operations.push({
-      type: 'fade',
-      data: { type: 'fadeSequence', params: [sequence, condition] }
-    });
+    this.operations.push({ type: 'fade', fade: 'fadeSequence', sequence, condition });
     return this;
   }
 
@@ -1639,10 +2539,7 @@ export class ButtonChain {
     duration: number = 1000,
     condition?: boolean | (() => boolean) | (() => Promise<boolean>)
   ): this {
-    this.operations.push({
-      type: 'fade',
-      data: { type: 'fadeToBlack', params: [duration, condition] }
-    });
+    this.operations.push({ type: 'fade', fade: 'fadeToBlack', duration, condition });
     return this;
   }
 
@@ -1666,10 +2563,7 @@ export class ButtonChain {
     fadeInDuration: number = 1000,
     condition?: boolean | (() => boolean) | (() => Promise<boolean>)
   ): this {
-    this.operations.push({
-      type: 'fade',
-      data: { type: 'fadeOutIn', params: [targetColor, fadeOutDuration, fadeInDuration, condition] }
-    });
+    this.operations.push({ type: 'fade', fade: 'fadeOutIn', color: targetColor, fadeOutDuration, fadeInDuration, condition });
     return this;
   }
 
@@ -1693,10 +2587,7 @@ export class ButtonChain {
    */
   setCustomVar(name: string, value: string, enabled: boolean = true): this {
     if (!enabled) return this; // Skip if disabled
-    this.operations.push({
-      type: 'action',
-      data: () => this.client.setCustomVariable(name, value)
-    });
+    this.operations.push({ type: 'variable', name, value });
     return this;
   }
 
@@ -1726,10 +2617,7 @@ export class ButtonChain {
   setCustomVars(variables: Record<string, string>, enabled: boolean = true): this {
     if (!enabled) return this; // Skip if disabled
     Object.entries(variables).forEach(([name, value]) => {
-      this.operations.push({
-        type: 'action',
-        data: () => this.client.setCustomVariable(name, value)
-      });
+      this.operations.push({ type: 'variable', name, value });
     });
     return this;
   }
@@ -1759,12 +2647,280 @@ export class ButtonChain {
    * ```
    */
   rescanSurfaces(): this {
-    this.operations.push({
-      type: 'action',
-      data: () => this.client.rescanSurfaces()
-    });
+    this.operations.push({ type: 'rescan' });
+    return this;
+  }
+}
+
+/**
+ * Fluent chain over several buttons, returned by `client.buttons(selector)`.
+ *
+ * Offers the `ButtonChain` API. Each step is applied to every selected key
+ * before the next step starts: style changes and actions go out as one
+ * `executeBatch` per step (bounded concurrency, shared scheduler), steps and
+ * fades run on all keys in parallel, and variables and rescans run once.
+ *
+ * Example:
+ *   await client.buttons({ page: 1, rows: 0, columns: '*' })
+ *     .text('')
+ *     .bgcolor('#000000')
+ *     .apply();
+ */
+export class ButtonSelectionChain<C extends ControlSurface = StreamDeckClient> {
+  private client: C;
+  private selector: ButtonSelector;
+  private template: ButtonChain<C>; // collects steps; never applied itself
+  private enabled = true;
+  private condition?: () => boolean;
+  private asyncCondition?: () => Promise<boolean>;
+
+  constructor(client: C, selector: ButtonSelector) {
+    this.client = client;
+    this.selector = selector;
+    this.template = new ButtonChain(client, { page: 0, row: 0, column: 0 });
+  }
+
+  text(text: string, enabled: boolean = true): this {
+    this.template.text(text, enabled);
+    return this;
+  }
+
+  bgcolor(color: string, enabled: boolean = true): this {
+    this.template.bgcolor(color, enabled);
+    return this;
+  }
+
+  color(color: string, enabled: boolean = true): this {
+    this.template.color(color, enabled);
+    return this;
+  }
+
+  size(size: number | 'auto', enabled: boolean = true): this {
+    this.template.size(size, enabled);
+    return this;
+  }
+
+  png64(png: string, enabled: boolean = true): this {
+    this.template.png64(png, enabled);
+    return this;
+  }
+
+  alignment(alignment: ButtonAlignment, enabled: boolean = true): this {
+    this.template.alignment(alignment, enabled);
+    return this;
+  }
+
+  pngalignment(alignment: ButtonAlignment, enabled: boolean = true): this {
+    this.template.pngalignment(alignment, enabled);
+    return this;
+  }
+
+  textExpression(expression: boolean = true, enabled: boolean = true): this {
+    this.template.textExpression(expression, enabled);
+    return this;
+  }
+
+  showTopbar(show: boolean | 'default', enabled: boolean = true): this {
+    this.template.showTopbar(show, enabled);
+    return this;
+  }
+
+  style(style: ButtonStyle, enabled: boolean = true): this {
+    this.template.style(style, enabled);
+    return this;
+  }
+
+  press(enabled: boolean = true): this {
+    this.template.press(enabled);
+    return this;
+  }
+
+  down(enabled: boolean = true): this {
+    this.template.down(enabled);
+    return this;
+  }
+
+  up(enabled: boolean = true): this {
+    this.template.up(enabled);
+    return this;
+  }
+
+  rotateLeft(enabled: boolean = true): this {
+    this.template.rotateLeft(enabled);
+    return this;
+  }
+
+  rotateRight(enabled: boolean = true): this {
+    this.template.rotateRight(enabled);
+    return this;
+  }
+
+  step(n: number, enabled: boolean = true): this {
+    this.template.step(n, enabled);
+    return this;
+  }
+
+  fadeTo(targetColor: string, duration: number = 1000, condition?: FadeCondition): this {
+    this.template.fadeTo(targetColor, duration, condition);
+    return this;
+  }
+
+  fadeToBlack(duration: number = 1000, condition?: FadeCondition): this {
+    this.template.fadeToBlack(duration, condition);
+    return this;
+  }
+
+  fadeSequence(sequence: Array<{ color: string; duration: number }>, condition?: FadeCondition): this {
+    this.template.fadeSequence(sequence, condition);
+    return this;
+  }
+
+  fadeOutIn(targetColor: string, fadeOutDuration: number = 500, fadeInDuration: number = 1000, condition?: FadeCondition): this {
+    this.template.fadeOutIn(targetColor, fadeOutDuration, fadeInDuration, condition);
+    return this;
+  }
+
+  setVar(name: string, value: string, enabled: boolean = true): this {
+    this.template.setVar(name, value, enabled);
+    return this;
+  }
+
+  setVars(variables: Record<string, string>, enabled: boolean = true): this {
+    this.template.setVars(variables, enabled);
+    return this;
+  }
+
+  when(condition: boolean | (() => boolean)): this {
+    if (typeof condition === 'function') {
+      this.condition = condition as () => boolean;
+    } else {
+      this.condition = undefined;
+      this.enabled = Boolean(condition);
+    }
+    return this;
+  }
+
+  unless(condition: boolean | (() => boolean)): this {
+    if (typeof condition === 'function') {
+      const fn = condition as () => boolean;
+      this.condition = () => !fn();
+    } else {
+      this.condition = undefined;
+      this.enabled = !Boolean(condition);
+    }
+    return this;
+  }
+
+  whenAsync(predicate: () => Promise<boolean>): this {
+    this.asyncCondition = predicate;
+    this.condition = undefined;
     return this;
   }
+
+  unlessAsync(predicate: () => Promise<boolean>): this {
+    this.asyncCondition = async () => !(await predicate());
+    this.condition = undefined;
+    return this;
+  }
+
+  /**
+   * The selected positions. Throws `INVALID_SELECTOR` for unknown layouts or
+   * rows/columns outside the grid.
+   */
+  async getPositions(): Promise<ButtonPosition[]> {
+    // Loaded lazily: utils imports this module
+    const utils = await import('./utils');
+    return utils.resolveButtonSelector(this.selector);
+  }
+
+  /**
+   * Apply every step to all selected keys. Rejects with `SELECTION_FAILED`
+   * (`response` lists `{ position, error }` per failed key) once a step has
+   * failed on any key; later steps are not run.
+   */
+  async apply(options: ApplyOptions = {}): Promise<void> {
+    const { signal } = options;
+    const positions = await this.getPositions();
+    if (!(await evaluateChainCondition(this.enabled, this.condition, this.asyncCondition))) return;
+
+    const operations = await this.template.resolveOperations();
+    // One chain per key, starting from the selection's style: fades begin at
+    // its colour and later steps see where earlier fades ended
+    const base = operations[0]?.type === 'style' ? operations[0].style : {};
+    const chains = positions.map(position => new ButtonChain(this.client, position).style(base));
+
+    for (const operation of operations) {
+      throwIfAborted(signal);
+      await this.runOnAll(positions, chains, operation, signal);
+      if (operation.type !== 'style') await delay(10, signal);
+    }
+  }
+
+  /**
+   * Convenience: apply and return the client for further chaining
+   */
+  async applyAndContinue(options: ApplyOptions = {}): Promise<C> {
+    await this.apply(options);
+    return this.client;
+  }
+
+  /**
+   * Run `ButtonChain.animate` on every selected key. Style changes collected
+   * on this chain are used as each key's base style. Looping animations
+   * return one stop function for all keys.
+   */
+  async animate(
+    presetOrStyle: Parameters<ButtonChain<C>['animate']>[0],
+    duration: number = 1000,
+    opts: Parameters<ButtonChain<C>['animate']>[2] = {}
+  ): Promise<(() => void) | void> {
+    const positions = await this.getPositions();
+    if (!(await evaluateChainCondition(this.enabled, this.condition, this.asyncCondition))) return;
+
+    const [first] = await this.template.resolveOperations();
+    const base = first?.type === 'style' ? first.style : {};
+    const results = await Promise.all(positions.map(position =>
+      new ButtonChain(this.client, position).style(base).animate(presetOrStyle, duration, opts)
+    ));
+
+    const stops = results.filter((result): result is () => void => typeof result === 'function');
+    if (stops.length > 0) return () => stops.forEach(stop => stop());
+  }
+
+  private async runOnAll(positions: ButtonPosition[], chains: ButtonChain<C>[], operation: ChainOperation, signal?: AbortSignal): Promise<void> {
+    let failures: Array<{ position: ButtonPosition; error: Error }> = [];
+
+    if (operation.type === 'variable' || operation.type === 'rescan') {
+      await runSurfaceOperation(this.client, operation, { signal });
+      return;
+    }
+
+    if (operation.type === 'style' || operation.type === 'action') {
+      const batch = await this.client.executeBatch(positions.map(position => (
+        operation.type === 'style'
+          ? { position, action: 'style' as const, data: operation.style }
+          : { position, action: operation.action }
+      )), { signal });
+      failures = batch.results
+        .filter(result => result.status === 'rejected')
+        .map(result => ({ position: result.operation.position, error: result.error as Error }));
+    } else {
+      const settled = await Promise.allSettled(chains.map(chain => chain.runOperation(operation, signal)));
+      settled.forEach((result, index) => {
+        if (result.status === 'rejected') failures.push({ position: positions[index], error: result.reason });
+      });
+    }
+
+    if (failures.length === 0) return;
+    const aborted = failures.find(failure => isAbortError(failure.error));
+    if (aborted) throw aborted.error;
+    throw new StreamDeckError(
+      `${operation.type} failed on ${failures.length} of ${positions.length} buttons: ${failures[0].error.message}`,
+      'SELECTION_FAILED',
+      undefined,
+      failures
+    );
+  }
 }
 
 /**
@@ -1780,14 +2936,14 @@ export class ButtonChain {
  *     .rescanSurfaces()
  *     .apply();
  */
-export class SystemChain {
-  private client: StreamDeckClient;
-  private operations: Array<() => Promise<any>> = [];
+export class SystemChain<C extends ControlSurface = StreamDeckClient> {
+  private client: C;
+  private operations: ChainOperation[] = [];
   private enabled = true;
   private condition?: () => boolean;
   private asyncCondition?: () => Promise<boolean>;
 
-  constructor(client: StreamDeckClient) {
+  constructor(client: C) {
     this.client = client;
   }
 
@@ -1804,7 +2960,7 @@ export class SystemChain {
    */
   setVar(name: string, value: string, enabled: boolean = true): this {
     if (!enabled) return this; // Skip if disabled
-    this.operations.push(() => this.client.setCustomVariable(name, value));
+    this.operations.push({ type: 'variable', name, value });
     return this;
   }
 
@@ -1825,7 +2981,7 @@ export class SystemChain {
   setVars(variables: Record<string, string>, enabled: boolean = true): this {
     if (!enabled) return this; // Skip if disabled
     Object.entries(variables).forEach(([name, value]) => {
-      this.operations.push(() => this.client.setCustomVariable(name, value));
+      this.operations.push({ type: 'variable', name, value });
     });
     return this;
   }
@@ -1843,7 +2999,7 @@ export class SystemChain {
    */
   rescanSurfaces(enabled: boolean = true): this {
     if (!enabled) return this; // Skip if disabled
-    this.operations.push(() => this.client.rescanSurfaces());
+    this.operations.push({ type: 'rescan' });
     return this;
   }
 
@@ -1895,40 +3051,60 @@ export class SystemChain {
 
   /**
    * Execute all queued operations in sequence.
+   * Aborting `options.signal` stops the chain and rejects with code `ABORTED`.
    */
-  async apply(): Promise<void> {
-    // Evaluate condition
-    let finalEnabled = this.enabled;
-    if (this.asyncCondition) {
-      try {
-        finalEnabled = Boolean(await this.asyncCondition());
-      } catch {
-        finalEnabled = false;
-      }
-    } else if (this.condition) {
-      finalEnabled = Boolean(this.condition());
-    }
-
-    if (!finalEnabled) return;
+  async apply(options: ApplyOptions = {}): Promise<void> {
+    const { signal } = options;
 
     // Execute operations in sequence
-    for (const operation of this.operations) {
+    for (const operation of await this.resolveOperations()) {
+      throwIfAborted(signal);
       try {
-        await operation();
+        await this.runOperation(operation, signal);
         // Small delay between operations
-        await new Promise(resolve => setTimeout(resolve, 10));
+        await delay(10, signal);
       } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('System chain operation failed:', error);
         // Continue with other operations
       }
     }
   }
 
+  /**
+   * Export the chain as a JSON document (see `client.loadChains()`). Throws
+   * `NOT_SERIALIZABLE` when the chain uses function conditions.
+   */
+  toJSON(): SystemChainDocument {
+    assertSerializableCondition(this.condition, this.asyncCondition);
+    return {
+      version: CHAIN_DOCUMENT_VERSION,
+      kind: 'system',
+      ...(this.enabled ? {} : { enabled: false }),
+      operations: this.operations.map(serializeOperation)
+    };
+  }
+
+  /**
+   * The steps `apply()` would run right now (empty when the chain is disabled)
+   */
+  async resolveOperations(): Promise<ChainOperation[]> {
+    if (!(await evaluateChainCondition(this.enabled, this.condition, this.asyncCondition))) return [];
+    return [...this.operations];
+  }
+
+  /**
+   * Run a single step
+   */
+  async runOperation(operation: ChainOperation, signal?: AbortSignal): Promise<void> {
+    await runSurfaceOperation(this.client, operation, { signal });
+  }
+
   /**
    * Apply and return the client for further chaining.
    */
-  async applyAndContinue(): Promise<StreamDeckClient> {
-    await this.apply();
+  async applyAndContinue(options: ApplyOptions = {}): Promise<C> {
+    await this.apply(options);
     return this.client;
   }
 }
@@ -0,0 +1,150 @@
+/**
+ * Easing functions
+ *
+ * ## Overview
+ * Maps animation progress (0..1) to eased progress for keyframe animations.
+ * Includes the standard quad/cubic/sine/back/elastic/bounce families,
+ * `steps(n)` for frame-by-frame jumps and `cubicBezier()` for CSS-style
+ * custom curves. Wherever an `Easing` is accepted you can pass a name
+ * (`'easeOutBounce'`), a CSS-like string (`'steps(4)'`,
+ * `'cubic-bezier(0.4, 0, 0.2, 1)'`) or your own function.
+ *
+ * ## Example
+ * ```ts
+ * const ease = resolveEasing('easeInOutCubic');
+ * ease(0.25); // 0.0625
+ *
+ * const snappy = cubicBezier(0.4, 0, 0.2, 1);
+ * const ticks = steps(4);
+ * ```
+ */
+
+import { StreamDeckError } from './types';
+
+export type EasingFunction = (t: number) => number;
+
+const { PI, cos, sin, pow } = Math;
+const BACK = 1.70158;
+
+function bounceOut(t: number): number {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+}
+
+export const EASINGS = {
+  linear: (t: number) => t,
+  ease: cubicBezier(0.25, 0.1, 0.25, 1),
+  easeInQuad: (t: number) => t * t,
+  easeOutQuad: (t: number) => 1 - (1 - t) * (1 - t),
+  easeInOutQuad: (t: number) => (t < 0.5 ? 2 * t * t : 1 - pow(-2 * t + 2, 2) / 2),
+  easeInCubic: (t: number) => t * t * t,
+  easeOutCubic: (t: number) => 1 - pow(1 - t, 3),
+  easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - pow(-2 * t + 2, 3) / 2),
+  easeInSine: (t: number) => 1 - cos((t * PI) / 2),
+  easeOutSine: (t: number) => sin((t * PI) / 2),
+  easeInOutSine: (t: number) => -(cos(PI * t) - 1) / 2,
+  easeInBack: (t: number) => (BACK + 1) * t * t * t - BACK * t * t,
+  easeOutBack: (t: number) => 1 + (BACK + 1) * pow(t - 1, 3) + BACK * pow(t - 1, 2),
+  easeInOutBack: (t: number) => {
+    const c = BACK * 1.525;
+    return t < 0.5
+      ? (pow(2 * t, 2) * ((c + 1) * 2 * t - c)) / 2
+      : (pow(2 * t - 2, 2) * ((c + 1) * (t * 2 - 2) + c) + 2) / 2;
+  },
+  easeInElastic: (t: number) =>
+    t === 0 || t === 1 ? t : -pow(2, 10 * t - 10) * sin((t * 10 - 10.75) * ((2 * PI) / 3)),
+  easeOutElastic: (t: number) =>
+    t === 0 || t === 1 ? t : pow(2, -10 * t) * sin((t * 10 - 0.75) * ((2 * PI) / 3)) + 1,
+  easeInOutElastic: (t: number) => {
+    if (t === 0 || t === 1) return t;
+    const wave = sin((20 * t - 11.125) * ((2 * PI) / 4.5));
+    return t < 0.5 ? -(pow(2, 20 * t - 10) * wave) / 2 : (pow(2, -20 * t + 10) * wave) / 2 + 1;
+  },
+  easeInBounce: (t: number) => 1 - bounceOut(1 - t),
+  easeOutBounce: bounceOut,
+  easeInOutBounce: (t: number) => (t < 0.5 ? (1 - bounceOut(1 - 2 * t)) / 2 : (1 + bounceOut(2 * t - 1)) / 2)
+};
+
+export type EasingName = keyof typeof EASINGS;
+
+// A named easing, 'steps(n)' / 'steps(n, start)', 'cubic-bezier(x1, y1, x2, y2)' or a function
+export type Easing = EasingName | EasingFunction | (string & {});
+
+/**
+ * Jump between `count` flat levels instead of moving smoothly, like CSS
+ * `steps()`. With 'start' the first jump happens immediately.
+ */
+export function steps(count: number, position: 'start' | 'end' = 'end'): EasingFunction {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new StreamDeckError(`steps() needs a positive integer count, got ${count}`, 'INVALID_EASING');
+  }
+  return t => {
+    if (t >= 1) return 1;
+    const step = position === 'start' ? Math.ceil(t * count) : Math.floor(t * count);
+    return Math.max(0, step) / count;
+  };
+}
+
+/**
+ * Custom curve through (0,0), (x1,y1), (x2,y2), (1,1), like CSS
+ * `cubic-bezier()`. x1 and x2 must be within 0..1.
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  if (![x1, y1, x2, y2].every(Number.isFinite) || x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+    throw new StreamDeckError(`Invalid cubic-bezier(${x1}, ${y1}, ${x2}, ${y2}): x values must be within 0..1`, 'INVALID_EASING');
+  }
+
+  const curve = (a: number, b: number, t: number) => 3 * a * (1 - t) * (1 - t) * t + 3 * b * (1 - t) * t * t + t * t * t;
+  const slope = (a: number, b: number, t: number) => 3 * a * (1 - t) * (1 - t) + 6 * (b - a) * (1 - t) * t + 3 * (1 - b) * t * t;
+
+  return x => {
+    if (x <= 0 || x >= 1) return x <= 0 ? 0 : 1;
+    // Solve curve(x1, x2, t) = x with Newton's method, falling back to bisection
+    let t = x;
+    for (let i = 0; i < 8; i++) {
+      const error = curve(x1, x2, t) - x;
+      if (Math.abs(error) < 1e-6) return curve(y1, y2, t);
+      const d = slope(x1, x2, t);
+      if (Math.abs(d) < 1e-6) break;
+      t -= error / d;
+    }
+    let low = 0;
+    let high = 1;
+    t = x;
+    for (let i = 0; i < 30; i++) {
+      const value = curve(x1, x2, t);
+      if (Math.abs(value - x) < 1e-6) break;
+      if (value < x) low = t;
+      else high = t;
+      t = (low + high) / 2;
+    }
+    return curve(y1, y2, t);
+  };
+}
+
+/**
+ * Turn an `Easing` into a function. Throws `INVALID_EASING` for unknown names
+ * or malformed `steps()` / `cubic-bezier()` strings.
+ */
+export function resolveEasing(easing: Easing = 'linear'): EasingFunction {
+  if (typeof easing === 'function') return easing;
+  if (Object.prototype.hasOwnProperty.call(EASINGS, easing)) return EASINGS[easing as EasingName];
+
+  const stepsMatch = /^steps\(\s*(\d+)\s*(?:,\s*(start|end)\s*)?\)$/.exec(easing);
+  if (stepsMatch) return steps(Number(stepsMatch[1]), (stepsMatch[2] as 'start' | 'end') ?? 'end');
+
+  const bezierMatch = /^cubic-bezier\(([^)]*)\)$/.exec(easing);
+  if (bezierMatch) {
+    const values = bezierMatch[1].split(',').map(value => Number(value.trim()));
+    if (values.length === 4) return cubicBezier(values[0], values[1], values[2], values[3]);
+  }
+
+  throw new StreamDeckError(
+    `Unknown easing "${easing}" (expected one of ${Object.keys(EASINGS).join(', ')}, steps(n) or cubic-bezier(x1, y1, x2, y2))`,
+    'INVALID_EASING'
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Event hub
+ *
+ * ## Overview
+ * Listener registry shared by `StreamDeckClient`, `RemoteClient` and
+ * `FailoverClient`. Besides plain listeners it supports filtered
+ * subscriptions (by type, `type:action` key, action, page or position) and
+ * async iteration over matching events.
+ *
+ * ## Example
+ * ```ts
+ * client.on('variable:set', e => console.log(e.data.name, e.data.value));
+ * client.on({ type: 'style', page: 3 }, e => console.log(e.position, e.data));
+ *
+ * for await (const event of client.events({ type: ['button', 'style'], page: 3 })) {
+ *   render(event);
+ * }
+ * ```
+ */
+
+import type {
+  EventFilter,
+  EventOf,
+  EventStreamOptions,
+  StreamDeckEvent,
+  StreamDeckEventKey
+} from './types';
+
+export type StreamDeckEventListener<E extends StreamDeckEvent = StreamDeckEvent> = (event: E) => void;
+
+// Anything accepted where a filter is expected: a key, several keys or a filter object
+export type EventSelector<K extends StreamDeckEventKey = StreamDeckEventKey> = K | K[] | EventFilter<K>;
+
+const DEFAULT_BUFFER_SIZE = 100;
+
+const toArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Whether an event matches a subscription filter
+ */
+export function matchesEvent(event: StreamDeckEvent, selector: EventSelector = {}): boolean {
+  const filter = normalizeSelector(selector);
+
+  if (filter.type !== undefined) {
+    const matched = toArray(filter.type).some(key => {
+      const [type, action] = key.split(':');
+      return event.type === type && (action === undefined || event.action === action);
+    });
+    if (!matched) return false;
+  }
+
+  if (filter.action !== undefined && !toArray(filter.action).includes(event.action)) {
+    return false;
+  }
+
+  if (filter.page !== undefined || filter.position !== undefined) {
+    const position = 'position' in event ? event.position : undefined;
+    if (!position) return false;
+    if (filter.page !== undefined && !toArray(filter.page).includes(position.page)) return false;
+    if (filter.position) {
+      const { page, row, column } = filter.position;
+      if (page !== undefined && position.page !== page) return false;
+      if (row !== undefined && position.row !== row) return false;
+      if (column !== undefined && position.column !== column) return false;
+    }
+  }
+
+  return true;
+}
+
+function normalizeSelector(selector: EventSelector): EventFilter {
+  if (typeof selector === 'string' || Array.isArray(selector)) {
+    return { type: selector };
+  }
+  return selector;
+}
+
+export class EventHub {
+  private listeners: Set<StreamDeckEventListener> = new Set();
+  private streams: Set<() => void> = new Set();
+
+  /**
+   * @param label - Name used in listener error logs (e.g. 'StreamDeck')
+   */
+  constructor(private label: string) {}
+
+  /**
+   * Register a listener for every event. Returns an unsubscribe function.
+   */
+  add(listener: StreamDeckEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener for events matching `selector`. Returns an unsubscribe function.
+   */
+  on<K extends StreamDeckEventKey>(selector: EventSelector<K>, listener: StreamDeckEventListener<EventOf<K>>): () => void {
+    return this.add(event => {
+      if (matchesEvent(event, selector)) listener(event as EventOf<K>);
+    });
+  }
+
+  /**
+   * Iterate over matching events with `for await`. Events arriving while the
+   * consumer is busy are buffered. The iteration ends on `break`, when
+   * `options.signal` fires, or when all listeners are removed.
+   */
+  stream<K extends StreamDeckEventKey>(
+    selector: EventSelector<K> = {},
+    options: EventStreamOptions = {}
+  ): AsyncIterableIterator<EventOf<K>> {
+    const bufferSize = Math.max(1, options.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    const buffer: Array<EventOf<K>> = [];
+    let waiting: ((result: IteratorResult<EventOf<K>>) => void) | null = null;
+    let done = false;
+
+    const unsubscribe = this.on(selector, event => {
+      if (waiting) {
+        const wake = waiting;
+        waiting = null;
+        wake({ value: event, done: false });
+        return;
+      }
+      buffer.push(event);
+      if (buffer.length > bufferSize) buffer.shift(); // slow consumer: drop the oldest
+    });
+
+    const finish = () => {
+      if (done) return;
+      done = true;
+      unsubscribe();
+      this.streams.delete(finish);
+      options.signal?.removeEventListener('abort', finish);
+      if (waiting) {
+        const wake = waiting;
+        waiting = null;
+        wake({ value: undefined, done: true });
+      }
+    };
+
+    this.streams.add(finish);
+    if (options.signal?.aborted) finish();
+    else options.signal?.addEventListener('abort', finish, { once: true });
+
+    const iterator: AsyncIterableIterator<EventOf<K>> = {
+      next: () => {
+        if (buffer.length > 0) return Promise.resolve({ value: buffer.shift() as EventOf<K>, done: false });
+        if (done) return Promise.resolve({ value: undefined, done: true });
+        return new Promise(resolve => {
+          waiting = resolve;
+        });
+      },
+      return: () => {
+        finish();
+        buffer.length = 0;
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      }
+    };
+    return iterator;
+  }
+
+  /**
+   * Deliver an event to every listener. A throwing listener is logged and
+   * doesn't stop delivery to the others.
+   */
+  emit(event: StreamDeckEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in ${this.label} event listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Remove all listeners and end active `stream()` iterations
+   */
+  clear(): void {
+    this.listeners.clear();
+    [...this.streams].forEach(finish => finish());
+  }
+}
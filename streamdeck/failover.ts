@@ -0,0 +1,381 @@
+/**
+ * Transport failover (HTTP <-> TCP/UDP)
+ *
+ * ## Overview
+ * `FailoverClient` is a `ControlSurface` composed of a `StreamDeckClient`
+ * (HTTP) and a `RemoteClient` (TCP/UDP). Calls go to the active transport;
+ * when it fails the call is retried on the other one and the client switches
+ * over. A periodic health check moves traffic back to the preferred transport
+ * once it recovers. Every switch is reported as a `connection` event.
+ *
+ * ## Example
+ * ```ts
+ * const http = new StreamDeckClient({ baseUrl: 'http://localhost:8000', retries: 1 });
+ * const remote = new RemoteClient({ protocol: 'tcp', acknowledge: true });
+ * const deck = new FailoverClient({ http, remote });
+ * deck.addEventListener(e => console.log(e.action, e.data)); // 'failover' { from: 'http', to: 'remote' }
+ * await deck.start();
+ * await deck.pressButton({ page: 1, row: 0, column: 0 }); // same call either way
+ * ```
+ */
+
+import type {
+  BatchOperation,
+  BatchOptions,
+  BatchResult,
+  ButtonPosition,
+  ButtonStyle,
+  ControlSurface,
+  RequestOptions,
+  EventOf,
+  EventStreamOptions,
+  StreamDeckEvent,
+  StreamDeckEventKey
+} from './types';
+import { StreamDeckError } from './types';
+import { runBatch } from './batch';
+import { EventHub } from './events';
+import type { EventSelector } from './events';
+import type { StreamDeckClient } from './client';
+import type { RemoteClient } from './remote';
+
+export type FailoverTransport = 'http' | 'remote';
+
+export interface FailoverConfig {
+  http: StreamDeckClient;
+  remote: RemoteClient;
+  preferred?: FailoverTransport; // transport to use whenever it is healthy (default: 'http')
+  healthCheckInterval?: number; // ms between health checks (default: 5000)
+  // Custom HTTP health check. Defaults to reading a custom variable: any answer
+  // from Companion, even a 404, counts as healthy. (`testConnection()` would
+  // rescan surfaces on every probe.)
+  httpHealthCheck?: (http: StreamDeckClient) => Promise<boolean>;
+}
+
+export interface TransportHealth {
+  http: boolean;
+  remote: boolean;
+}
+
+export class FailoverClient implements ControlSurface {
+  private http: StreamDeckClient;
+  private remote: RemoteClient;
+  private preferred: FailoverTransport;
+  private healthCheckInterval: number;
+  private httpHealthCheck: (http: StreamDeckClient) => Promise<boolean>;
+  private active: FailoverTransport;
+  private health: TransportHealth = { http: true, remote: false };
+  private healthTimer?: ReturnType<typeof setInterval>;
+  private checking = false;
+  private eventHub = new EventHub('FailoverClient');
+
+  constructor(config: FailoverConfig) {
+    this.http = config.http;
+    this.remote = config.remote;
+    this.preferred = config.preferred || 'http';
+    this.healthCheckInterval = config.healthCheckInterval || 5000;
+    this.httpHealthCheck = config.httpHealthCheck || defaultHttpHealthCheck;
+    this.active = this.preferred;
+  }
+
+  /**
+   * Run an initial health check and start periodic checks
+   */
+  async start(): Promise<TransportHealth> {
+    const health = await this.checkHealth();
+    if (!this.healthTimer) {
+      this.healthTimer = setInterval(() => {
+        this.checkHealth().catch(() => { /* reported through health state */ });
+      }, this.healthCheckInterval);
+    }
+    return health;
+  }
+
+  /**
+   * Stop periodic health checks (does not disconnect the underlying clients)
+   */
+  stop(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+  }
+
+  /**
+   * Probe both transports and switch to the preferred one if it is healthy
+   */
+  async checkHealth(): Promise<TransportHealth> {
+    if (this.checking) return { ...this.health };
+    this.checking = true;
+
+    try {
+      const [http, remote] = await Promise.all([this.probeHttp(), this.probeRemote()]);
+      this.health = { http, remote };
+
+      const fallback = this.other(this.preferred);
+      if (this.health[this.preferred] && this.active !== this.preferred) {
+        this.switchTo(this.preferred, 'restored');
+      } else if (!this.health[this.active] && this.health[fallback]) {
+        this.switchTo(fallback, 'failover');
+      }
+
+      return { ...this.health };
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Transport currently receiving calls
+   */
+  getActiveTransport(): FailoverTransport {
+    return this.active;
+  }
+
+  /**
+   * Last known health of each transport
+   */
+  getHealth(): TransportHealth {
+    return { ...this.health };
+  }
+
+  // =============================================================================
+  // CONTROL SURFACE
+  // =============================================================================
+
+  async pressButton(position: ButtonPosition, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.pressButton(position, options), options);
+  }
+
+  async pressButtonDown(position: ButtonPosition, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.pressButtonDown(position, options), options);
+  }
+
+  async releaseButton(position: ButtonPosition, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.releaseButton(position, options), options);
+  }
+
+  async rotateLeft(position: ButtonPosition, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.rotateLeft(position, options), options);
+  }
+
+  async rotateRight(position: ButtonPosition, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.rotateRight(position, options), options);
+  }
+
+  async setButtonStep(position: ButtonPosition, step: number, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.setButtonStep(position, step, options), options);
+  }
+
+  async updateButtonStyle(position: ButtonPosition, style: ButtonStyle, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.updateButtonStyle(position, style, options), options, position);
+  }
+
+  async updateButtonStyleBody(position: ButtonPosition, style: ButtonStyle, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.updateButtonStyleBody(position, style, options), options, position);
+  }
+
+  async setButtonText(position: ButtonPosition, text: string, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.setButtonText(position, text, options), options, position);
+  }
+
+  async setButtonTextColor(position: ButtonPosition, color: string, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.setButtonTextColor(position, color, options), options, position);
+  }
+
+  async setButtonBackgroundColor(position: ButtonPosition, color: string, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.setButtonBackgroundColor(position, color, options), options, position);
+  }
+
+  async setCustomVariable(name: string, value: string, options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.setCustomVariable(name, value, options), options);
+  }
+
+  async rescanSurfaces(options?: RequestOptions): Promise<void> {
+    await this.route(surface => surface.rescanSurfaces(options), options);
+  }
+
+  async executeBatch(operations: BatchOperation[], options: BatchOptions = {}): Promise<BatchResult> {
+    // Each operation is routed on its own so a mid-batch failure switches over for the rest
+    return runBatch(this, operations, options);
+  }
+
+  // =============================================================================
+  // EVENT HANDLING
+  // =============================================================================
+
+  /**
+   * Add a listener for `connection` events emitted when the active transport
+   * changes. Button/style events are emitted by the underlying clients.
+   */
+  addEventListener(listener: (event: StreamDeckEvent) => void): () => void {
+    return this.eventHub.add(listener);
+  }
+
+  /**
+   * Filtered variant of `addEventListener`, e.g. `on('connection:failover', ...)`
+   */
+  on<K extends StreamDeckEventKey>(selector: EventSelector<K>, listener: (event: EventOf<K>) => void): () => void {
+    return this.eventHub.on(selector, listener);
+  }
+
+  /**
+   * Iterate over transport switch events with `for await`
+   */
+  events<K extends StreamDeckEventKey = StreamDeckEventKey>(
+    selector?: EventSelector<K>,
+    options?: EventStreamOptions
+  ): AsyncIterableIterator<EventOf<K>> {
+    return this.eventHub.stream(selector, options);
+  }
+
+  /**
+   * Remove all event listeners and end active event streams
+   */
+  removeAllEventListeners(): void {
+    this.eventHub.clear();
+  }
+
+  // =============================================================================
+  // PRIVATE METHODS
+  // =============================================================================
+
+  private surface(transport: FailoverTransport): ControlSurface {
+    return transport === 'http' ? this.http : this.remote;
+  }
+
+  private other(transport: FailoverTransport): FailoverTransport {
+    return transport === 'http' ? 'remote' : 'http';
+  }
+
+  /**
+   * Run an operation on the active transport, falling back to the other one
+   * when the active transport fails at the network level.
+   */
+  private async route<T>(
+    operation: (surface: ControlSurface) => Promise<T>,
+    options?: RequestOptions,
+    position?: ButtonPosition
+  ): Promise<T> {
+    const first = this.active;
+    const signal = options?.signal;
+
+    try {
+      const result = await operation(this.surface(first));
+      this.health[first] = true;
+      this.syncCache(first, position);
+      return result;
+    } catch (error) {
+      if (!isTransportFailure(error, signal)) throw error;
+
+      this.health[first] = false;
+      const second = this.other(first);
+      this.switchTo(second, 'failover', error as Error);
+
+      try {
+        const result = await operation(this.surface(second));
+        this.health[second] = true;
+        this.syncCache(second, position);
+        return result;
+      } catch (fallbackError) {
+        if (isTransportFailure(fallbackError, signal)) this.health[second] = false;
+        throw new StreamDeckError(
+          `All transports failed: ${(fallbackError as Error).message}`,
+          'ALL_TRANSPORTS_FAILED',
+          undefined,
+          { [first]: error, [second]: fallbackError }
+        );
+      }
+    }
+  }
+
+  /**
+   * Styles sent over TCP/UDP bypass the HTTP client's cache, so drop its
+   * entry to avoid skipping a later HTTP update as a duplicate.
+   */
+  private syncCache(transport: FailoverTransport, position?: ButtonPosition): void {
+    if (transport === 'remote' && position) {
+      this.http.clearButtonCache(position);
+    }
+  }
+
+  private switchTo(transport: FailoverTransport, reason: 'failover' | 'restored', error?: Error): void {
+    if (this.active === transport) return;
+    const from = this.active;
+    this.active = transport;
+    this.emitEvent({
+      type: 'connection',
+      action: reason,
+      data: { from, to: transport, error },
+      timestamp: Date.now()
+    });
+  }
+
+  private async probeHttp(): Promise<boolean> {
+    try {
+      return await this.httpHealthCheck(this.http);
+    } catch {
+      return false;
+    }
+  }
+
+  private async probeRemote(): Promise<boolean> {
+    if (this.remote.isConnected()) return true;
+    try {
+      await this.remote.connect();
+      return this.remote.isConnected();
+    } catch {
+      return false;
+    }
+  }
+
+  private emitEvent(event: StreamDeckEvent): void {
+    this.eventHub.emit(event);
+  }
+}
+
+// Errors that say nothing about the transport: Companion refused the command
+// or the scheduler superseded it. Client-side validation errors (INVALID_*)
+// are excluded as well.
+const NON_TRANSPORT_ERRORS = ['COMMAND_REJECTED', 'REQUEST_DROPPED'];
+
+// Custom variable read by the default HTTP health check
+const HEALTH_PROBE_VARIABLE = 'failover_health_probe';
+
+/**
+ * Whether an error means the transport itself is unusable (as opposed to
+ * Companion rejecting a well-formed request, e.g. an HTTP 404, a validation
+ * error such as `INVALID_STYLE`, or the caller aborting through `signal`).
+ * Timeouts count as failures: a stalled transport is an unusable one.
+ */
+function isTransportFailure(error: unknown, signal?: AbortSignal): boolean {
+  // A call cancelled by its caller must not be re-sent on the other transport
+  if (signal?.aborted) return false;
+  if (!(error instanceof StreamDeckError)) return true;
+  const code = error.code ?? '';
+  if (NON_TRANSPORT_ERRORS.includes(code) || code.startsWith('INVALID_')) return false;
+  const cause = error.code === 'REQUEST_FAILED' ? error.response : error;
+  if (cause instanceof StreamDeckError && cause.code === 'HTTP_ERROR') {
+    return (cause.statusCode ?? 500) >= 500;
+  }
+  return true;
+}
+
+/**
+ * Default HTTP health check: a read without side effects on Companion
+ */
+async function defaultHttpHealthCheck(http: StreamDeckClient): Promise<boolean> {
+  try {
+    await http.getCustomVariable(HEALTH_PROBE_VARIABLE, { priority: 'high' });
+    return true;
+  } catch (error) {
+    return !isTransportFailure(error);
+  }
+}
+
+/**
+ * Create a failover client over an HTTP and a TCP/UDP client
+ */
+export function createFailoverClient(config: FailoverConfig): FailoverClient {
+  return new FailoverClient(config);
+}
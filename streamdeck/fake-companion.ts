@@ -0,0 +1,342 @@
+/**
+ * Fake Companion HTTP server (Node.js only)
+ *
+ * ## Overview
+ * An in-process stand-in for Companion's HTTP API, meant for integration
+ * tests. It listens on localhost, keeps per-button style and variable state,
+ * records every request and can inject latency or errors, so the
+ * `StreamDeckClient`, `ButtonChain` and `Animator` can be exercised end-to-end
+ * without a real Companion instance.
+ *
+ * ## Supported endpoints
+ * - POST /api/location/<page>/<row>/<column>/(press|down|up|rotate-left|rotate-right)
+ * - POST /api/location/<page>/<row>/<column>/step?step=<n>
+ * - POST /api/location/<page>/<row>/<column>/style (query parameters and/or JSON body)
+ * - GET|POST /api/custom-variable/<name>/value
+ * - GET /api/variable/<connection>/<name>/value
+ * - POST /api/surfaces/rescan
+ *
+ * ## Example
+ * ```ts
+ * const fake = await createFakeCompanion();
+ * const client = new StreamDeckClient({ baseUrl: fake.url, retries: 1 });
+ * await client.button({ page: 1, row: 0, column: 0 }).text('Hi').apply();
+ * fake.state.getStyle({ page: 1, row: 0, column: 0 }); // { text: 'Hi' }
+ * await fake.close();
+ * ```
+ */
+
+import type { ButtonPosition, ButtonStyle } from './types';
+import { StreamDeckError } from './types';
+
+export interface FakeCompanionOptions {
+  host?: string; // default '127.0.0.1'
+  port?: number; // default 0 (pick a free port)
+  latency?: number; // artificial delay in ms before each response
+  state?: FakeCompanionState; // share state with another fake (e.g. the remote server)
+}
+
+// A request as seen by the fake server
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: any;
+  status: number;
+  timestamp: number;
+}
+
+// Rule describing an error to inject into matching requests
+export interface FakeErrorRule {
+  path?: string | RegExp; // path prefix or pattern (default: every request)
+  method?: 'GET' | 'POST';
+  status?: number; // HTTP status to answer with (default: 500)
+  message?: string;
+  times?: number; // how many requests to fail (default: unlimited)
+  drop?: boolean; // destroy the socket instead of answering
+}
+
+// Button action recorded by the fake (press, down, up, rotate, step)
+export interface FakeButtonAction {
+  position: ButtonPosition;
+  action: string;
+  step?: number;
+  timestamp: number;
+}
+
+/**
+ * Mutable deck state kept by the fake servers. One instance can be shared
+ * between the HTTP and the TCP/UDP fakes so both see the same buttons.
+ */
+export class FakeCompanionState {
+  private styles = new Map<string, ButtonStyle>();
+  private steps = new Map<string, number>();
+  private variables = new Map<string, string>();
+  private moduleVariables = new Map<string, string>();
+  private surfacePages = new Map<string, number>();
+  actions: FakeButtonAction[] = [];
+  rescans = 0;
+
+  private key(position: ButtonPosition): string {
+    return `${position.page}:${position.row}:${position.column}`;
+  }
+
+  getStyle(position: ButtonPosition): ButtonStyle {
+    return { ...(this.styles.get(this.key(position)) || {}) };
+  }
+
+  setStyle(position: ButtonPosition, style: Partial<ButtonStyle>): void {
+    const key = this.key(position);
+    this.styles.set(key, { ...(this.styles.get(key) || {}), ...style });
+  }
+
+  getStep(position: ButtonPosition): number | undefined {
+    return this.steps.get(this.key(position));
+  }
+
+  setStep(position: ButtonPosition, step: number): void {
+    this.steps.set(this.key(position), step);
+  }
+
+  recordAction(position: ButtonPosition, action: string, step?: number): void {
+    this.actions.push({ position, action, step, timestamp: Date.now() });
+  }
+
+  getVariable(name: string): string | undefined {
+    return this.variables.get(name);
+  }
+
+  setVariable(name: string, value: string): void {
+    this.variables.set(name, value);
+  }
+
+  getModuleVariable(connectionLabel: string, name: string): string | undefined {
+    return this.moduleVariables.get(`${connectionLabel}:${name}`);
+  }
+
+  setModuleVariable(connectionLabel: string, name: string, value: string): void {
+    this.moduleVariables.set(`${connectionLabel}:${name}`, value);
+  }
+
+  getSurfacePage(surfaceId: string): number | undefined {
+    return this.surfacePages.get(surfaceId);
+  }
+
+  setSurfacePage(surfaceId: string, page: number): void {
+    this.surfacePages.set(surfaceId, page);
+  }
+
+  reset(): void {
+    this.styles.clear();
+    this.steps.clear();
+    this.variables.clear();
+    this.moduleVariables.clear();
+    this.surfacePages.clear();
+    this.actions = [];
+    this.rescans = 0;
+  }
+}
+
+export interface FakeCompanion {
+  readonly url: string;
+  readonly port: number;
+  readonly state: FakeCompanionState;
+  readonly requests: RecordedRequest[];
+  setLatency(ms: number): void;
+  injectError(rule?: FakeErrorRule): void;
+  clearErrors(): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+const LOCATION_ACTIONS = ['press', 'down', 'up', 'rotate-left', 'rotate-right'];
+
+/**
+ * Start a fake Companion HTTP server on localhost.
+ */
+export async function createFakeCompanion(options: FakeCompanionOptions = {}): Promise<FakeCompanion> {
+  if (typeof window !== 'undefined') {
+    throw new StreamDeckError(
+      'The fake Companion server is only available in Node.js environments',
+      'BROWSER_NOT_SUPPORTED'
+    );
+  }
+
+  let http: any;
+  try {
+    http = await import('http');
+  } catch (error) {
+    throw new StreamDeckError(
+      'Failed to import Node.js http module',
+      'NODE_MODULES_UNAVAILABLE',
+      undefined,
+      error
+    );
+  }
+
+  const host = options.host || '127.0.0.1';
+  const state = options.state || new FakeCompanionState();
+  const requests: RecordedRequest[] = [];
+  let errorRules: FakeErrorRule[] = [];
+  let latency = options.latency || 0;
+
+  const matchError = (method: string, path: string): FakeErrorRule | undefined => {
+    const rule = errorRules.find(r => {
+      if (r.method && r.method !== method) return false;
+      if (r.path === undefined) return true;
+      return typeof r.path === 'string' ? path.startsWith(r.path) : r.path.test(path);
+    });
+    if (rule && rule.times !== undefined) {
+      rule.times--;
+      if (rule.times <= 0) errorRules = errorRules.filter(r => r !== rule);
+    }
+    return rule;
+  };
+
+  const route = (method: string, path: string, query: Record<string, string>, body: any): { status: number; body: string } => {
+    const parts = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+    // /api/location/<page>/<row>/<column>/<action>
+    if (parts[0] === 'api' && parts[1] === 'location' && parts.length === 6 && method === 'POST') {
+      const [page, row, column] = parts.slice(2, 5).map(Number);
+      if (![page, row, column].every(Number.isInteger)) {
+        return { status: 400, body: 'Invalid location' };
+      }
+      const position = { page, row, column };
+      const action = parts[5];
+
+      if (LOCATION_ACTIONS.includes(action)) {
+        state.recordAction(position, action);
+        return { status: 200, body: 'ok' };
+      }
+
+      if (action === 'step') {
+        const step = Number(query.step);
+        if (!Number.isInteger(step)) return { status: 400, body: 'Invalid step' };
+        state.setStep(position, step);
+        state.recordAction(position, 'step', step);
+        return { status: 200, body: 'ok' };
+      }
+
+      if (action === 'style') {
+        const style: Record<string, any> = { ...query };
+        if (style.size !== undefined && style.size !== 'auto') style.size = Number(style.size);
+        if (style.textExpression !== undefined) style.textExpression = style.textExpression === 'true';
+        if (style.show_topbar !== undefined && style.show_topbar !== 'default') style.show_topbar = style.show_topbar === 'true';
+        if (body && typeof body === 'object') Object.assign(style, body);
+        state.setStyle(position, style as ButtonStyle);
+        return { status: 200, body: 'ok' };
+      }
+
+      return { status: 404, body: 'Not found' };
+    }
+
+    // /api/custom-variable/<name>/value
+    if (parts[0] === 'api' && parts[1] === 'custom-variable' && parts.length === 4 && parts[3] === 'value') {
+      const name = parts[2];
+      if (method === 'GET') {
+        const value = state.getVariable(name);
+        return value === undefined ? { status: 404, body: 'Not found' } : { status: 200, body: value };
+      }
+      const value = query.value !== undefined ? query.value : body;
+      if (value === undefined || value === null) return { status: 400, body: 'No value' };
+      state.setVariable(name, String(value));
+      return { status: 200, body: 'ok' };
+    }
+
+    // /api/variable/<connection>/<name>/value
+    if (parts[0] === 'api' && parts[1] === 'variable' && parts.length === 5 && parts[4] === 'value' && method === 'GET') {
+      const value = state.getModuleVariable(parts[2], parts[3]);
+      return value === undefined ? { status: 404, body: 'Not found' } : { status: 200, body: value };
+    }
+
+    // /api/surfaces/rescan
+    if (path === '/api/surfaces/rescan' && method === 'POST') {
+      state.rescans++;
+      return { status: 200, body: 'ok' };
+    }
+
+    return { status: 404, body: 'Not found' };
+  };
+
+  const server = http.createServer((req: any, res: any) => {
+    const chunks: any[] = [];
+    req.on('data', (chunk: any) => chunks.push(chunk));
+    req.on('end', async () => {
+      const url = new URL(req.url || '/', `http://${host}`);
+      const query: Record<string, string> = {};
+      url.searchParams.forEach((value, key) => { query[key] = value; });
+
+      const raw = chunks.map(c => c.toString()).join('');
+      let body: any;
+      if (raw) {
+        try {
+          body = JSON.parse(raw);
+        } catch {
+          body = raw;
+        }
+      }
+
+      const method = req.method || 'GET';
+      const record: RecordedRequest = { method, path: url.pathname, query, body, status: 0, timestamp: Date.now() };
+      requests.push(record);
+
+      if (latency > 0) {
+        await new Promise(resolve => setTimeout(resolve, latency));
+      }
+
+      const rule = matchError(method, url.pathname);
+      if (rule?.drop) {
+        record.status = -1;
+        req.socket.destroy();
+        return;
+      }
+
+      const result = rule
+        ? { status: rule.status ?? 500, body: rule.message ?? 'Injected error' }
+        : route(method, url.pathname, query, body);
+
+      record.status = result.status;
+      res.writeHead(result.status, { 'Content-Type': 'text/plain' });
+      res.end(result.body);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port || 0, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const port: number = server.address().port;
+
+  return {
+    url: `http://${host}:${port}`,
+    port,
+    state,
+    requests,
+    setLatency(ms: number) {
+      latency = Math.max(0, ms);
+    },
+    injectError(rule: FakeErrorRule = {}) {
+      errorRules.push({ ...rule });
+    },
+    clearErrors() {
+      errorRules = [];
+    },
+    reset() {
+      requests.length = 0;
+      errorRules = [];
+      latency = options.latency || 0;
+      state.reset();
+    },
+    close() {
+      return new Promise<void>(resolve => {
+        if (server.closeAllConnections) server.closeAllConnections();
+        server.close(() => resolve());
+      });
+    }
+  };
+}
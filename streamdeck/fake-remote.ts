@@ -0,0 +1,303 @@
+/**
+ * Fake Companion remote-control server (TCP/UDP, Node.js only)
+ *
+ * ## Overview
+ * A local stand-in for Companion's TCP/UDP remote protocol, meant for
+ * integration tests of `RemoteClient`. It parses the same command grammar
+ * (`LOCATION x/y/z PRESS`, `SURFACE ... PAGE-SET`, `CUSTOM-VARIABLE ... SET-VALUE`,
+ * ...), applies commands to a `FakeCompanionState`, and answers TCP commands
+ * the way Companion does (`+OK` / `-ERR <message>`). UDP commands are applied
+ * but never answered, matching Companion.
+ *
+ * Connections can be dropped on purpose and the listener stopped and restarted
+ * on the same port, which makes reconnect and message-queue behaviour testable.
+ *
+ * ## Example
+ * ```ts
+ * const server = await createFakeRemoteServer();
+ * const remote = new RemoteClient({ port: server.port, protocol: 'tcp' });
+ * await remote.connect();
+ * await remote.pressButton({ page: 1, row: 0, column: 0 });
+ * await server.waitForCommands(1);
+ * server.dropConnections(); // client will try to reconnect
+ * await server.close();
+ * ```
+ */
+
+import { StreamDeckError } from './types';
+import { parseRemoteCommand } from './remote';
+import type { ParsedRemoteCommand } from './remote';
+import { FakeCompanionState } from './fake-companion';
+
+export interface FakeRemoteServerOptions {
+  host?: string; // default '127.0.0.1'
+  port?: number; // default 0 (pick a free port, shared by TCP and UDP)
+  protocols?: Array<'tcp' | 'udp'>; // default both
+  latency?: number; // artificial delay in ms before each TCP reply
+  state?: FakeCompanionState; // share state with the fake HTTP server
+}
+
+// A command as received by the fake server
+export interface ReceivedCommand {
+  protocol: 'tcp' | 'udp';
+  command: string;
+  parsed?: ParsedRemoteCommand;
+  response?: string; // reply sent back (TCP only)
+  timestamp: number;
+}
+
+export interface FakeRemoteServer {
+  readonly host: string;
+  readonly port: number;
+  readonly state: FakeCompanionState;
+  readonly commands: ReceivedCommand[];
+  connectionCount(): number;
+  setLatency(ms: number): void;
+  rejectNext(message?: string, times?: number): void;
+  dropConnections(): void;
+  dropAfter(commands: number): void;
+  waitForCommands(count: number, timeout?: number): Promise<ReceivedCommand[]>;
+  stop(): Promise<void>;
+  start(): Promise<void>;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a fake Companion TCP/UDP remote-control server on localhost.
+ */
+export async function createFakeRemoteServer(options: FakeRemoteServerOptions = {}): Promise<FakeRemoteServer> {
+  if (typeof window !== 'undefined') {
+    throw new StreamDeckError(
+      'The fake remote server is only available in Node.js environments',
+      'BROWSER_NOT_SUPPORTED'
+    );
+  }
+
+  let net: any;
+  let dgram: any;
+  try {
+    net = await import('net');
+    dgram = await import('dgram');
+  } catch (error) {
+    throw new StreamDeckError(
+      'Failed to import Node.js modules for TCP/UDP support',
+      'NODE_MODULES_UNAVAILABLE',
+      undefined,
+      error
+    );
+  }
+
+  const host = options.host || '127.0.0.1';
+  const protocols = options.protocols || ['tcp', 'udp'];
+  const state = options.state || new FakeCompanionState();
+  const commands: ReceivedCommand[] = [];
+  const sockets = new Set<any>();
+  // Pending waitForCommands() calls: re-checked on every command, rejected by reset()
+  const waiters: Array<{ check: () => void; cancel: () => void }> = [];
+  let latency = options.latency || 0;
+  let rejections: Array<{ message: string; times: number }> = [];
+  let dropAfterCount: number | null = null;
+  let port: number = options.port || 0;
+  let tcpServer: any = null;
+  let udpSocket: any = null;
+
+  // Apply a parsed command to the shared state
+  const apply = (parsed: ParsedRemoteCommand) => {
+    switch (parsed.kind) {
+      case 'location':
+        if (parsed.action === 'SET-STEP') {
+          state.setStep(parsed.position, parsed.step as number);
+          state.recordAction(parsed.position, 'step', parsed.step);
+        } else {
+          state.recordAction(parsed.position, parsed.action.toLowerCase());
+        }
+        break;
+      case 'style': {
+        const key = parsed.property === 'TEXT' ? 'text' : parsed.property === 'COLOR' ? 'color' : 'bgcolor';
+        const value = parsed.property === 'TEXT' || parsed.value.startsWith('#') ? parsed.value : `#${parsed.value}`;
+        state.setStyle(parsed.position, { [key]: value });
+        break;
+      }
+      case 'custom-variable':
+        state.setVariable(parsed.name, parsed.value);
+        break;
+      case 'surface': {
+        const current = state.getSurfacePage(parsed.surfaceId) ?? 1;
+        if (parsed.action === 'PAGE-SET') state.setSurfacePage(parsed.surfaceId, parsed.pageNumber as number);
+        else if (parsed.action === 'PAGE-UP') state.setSurfacePage(parsed.surfaceId, current + 1);
+        else state.setSurfacePage(parsed.surfaceId, Math.max(1, current - 1));
+        break;
+      }
+      case 'rescan':
+        state.rescans++;
+        break;
+    }
+  };
+
+  // Handle one command line and return the reply Companion would send
+  const handle = (protocol: 'tcp' | 'udp', line: string): ReceivedCommand => {
+    const received: ReceivedCommand = { protocol, command: line, timestamp: Date.now() };
+    commands.push(received);
+
+    const rejection = rejections[0];
+    if (rejection) {
+      rejection.times--;
+      if (rejection.times <= 0) rejections.shift();
+      received.response = `-ERR ${rejection.message}`;
+    } else {
+      try {
+        received.parsed = parseRemoteCommand(line);
+        apply(received.parsed);
+        received.response = '+OK';
+      } catch (error) {
+        received.response = `-ERR ${(error as Error).message}`;
+      }
+    }
+
+    waiters.splice(0).forEach(waiter => waiter.check());
+    return received;
+  };
+
+  const onTcpConnection = (socket: any) => {
+    sockets.add(socket);
+    let buffer = '';
+
+    socket.on('data', (data: any) => {
+      buffer += data.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const raw of lines) {
+        const line = raw.replace(/\r$/, '');
+        if (!line.trim()) continue;
+
+        const received = handle('tcp', line);
+        const reply = () => {
+          if (!socket.destroyed) socket.write(`${received.response}\n`);
+          if (dropAfterCount !== null && --dropAfterCount <= 0) {
+            dropAfterCount = null;
+            socket.destroy();
+          }
+        };
+        if (latency > 0) setTimeout(reply, latency);
+        else reply();
+      }
+    });
+
+    socket.on('error', () => { /* ignore client resets */ });
+    socket.on('close', () => sockets.delete(socket));
+  };
+
+  const start = async () => {
+    if (protocols.includes('tcp') && !tcpServer) {
+      tcpServer = net.createServer(onTcpConnection);
+      await new Promise<void>((resolve, reject) => {
+        tcpServer.once('error', reject);
+        tcpServer.listen(port, host, () => {
+          tcpServer.off('error', reject);
+          port = tcpServer.address().port;
+          resolve();
+        });
+      });
+    }
+
+    if (protocols.includes('udp') && !udpSocket) {
+      udpSocket = dgram.createSocket('udp4');
+      udpSocket.on('message', (msg: any) => {
+        msg.toString().split('\n').forEach((raw: string) => {
+          const line = raw.replace(/\r$/, '');
+          if (line.trim()) handle('udp', line);
+        });
+      });
+      await new Promise<void>((resolve, reject) => {
+        udpSocket.once('error', reject);
+        udpSocket.bind(port, host, () => {
+          udpSocket.off('error', reject);
+          port = udpSocket.address().port;
+          resolve();
+        });
+      });
+    }
+  };
+
+  const dropConnections = () => {
+    sockets.forEach(socket => socket.destroy());
+    sockets.clear();
+  };
+
+  const stop = async () => {
+    dropConnections();
+    if (tcpServer) {
+      const server = tcpServer;
+      tcpServer = null;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    if (udpSocket) {
+      const socket = udpSocket;
+      udpSocket = null;
+      await new Promise<void>(resolve => socket.close(() => resolve()));
+    }
+  };
+
+  await start();
+
+  return {
+    host,
+    get port() {
+      return port;
+    },
+    state,
+    commands,
+    connectionCount() {
+      return sockets.size;
+    },
+    setLatency(ms: number) {
+      latency = Math.max(0, ms);
+    },
+    rejectNext(message: string = 'Injected error', times: number = 1) {
+      rejections.push({ message, times });
+    },
+    dropConnections,
+    dropAfter(count: number) {
+      dropAfterCount = Math.max(1, count);
+    },
+    waitForCommands(count: number, timeout: number = 2000) {
+      return new Promise<ReceivedCommand[]>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          reject(new StreamDeckError(
+            `Timed out waiting for ${count} commands (received ${commands.length})`,
+            'TIMEOUT'
+          ));
+        }, timeout);
+        const cancel = () => {
+          clearTimeout(timer);
+          reject(new StreamDeckError(
+            `Server was reset while waiting for ${count} commands`,
+            'SERVER_RESET'
+          ));
+        };
+        const check = () => {
+          if (commands.length >= count) {
+            clearTimeout(timer);
+            resolve(commands.slice(0, count));
+          } else {
+            waiters.push({ check, cancel });
+          }
+        };
+        check();
+      });
+    },
+    stop,
+    start,
+    reset() {
+      waiters.splice(0).forEach(waiter => waiter.cancel());
+      commands.length = 0;
+      rejections = [];
+      dropAfterCount = null;
+      latency = options.latency || 0;
+      state.reset();
+    },
+    close: stop
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Change history
+ *
+ * ## Overview
+ * Bounded undo/redo stacks behind `StreamDeckClient.undo()`, `redo()` and
+ * `history()`. The client records every style and custom variable change it
+ * sends, together with the value it had cached before the change. Animation
+ * frames and calls made with `history: false` are not recorded. Recording a
+ * new change clears the redo stack; once `limit` entries are kept the oldest
+ * one is dropped.
+ *
+ * ## Example
+ * ```ts
+ * const history = new ChangeHistory(50);
+ * history.record({ type: 'variable', name: 'score', before: '1', after: '2', timestamp: Date.now() });
+ * const entry = history.takeUndo(); // the variable change
+ * history.pushRedo(entry!);
+ * ```
+ */
+
+import type { HistoryEntry } from './types';
+
+export class ChangeHistory {
+  private past: HistoryEntry[] = [];
+  private future: HistoryEntry[] = [];
+
+  /**
+   * @param limit - Entries kept for undo; 0 disables recording
+   */
+  constructor(private limit: number) {}
+
+  /**
+   * Record a new change. Clears the redo stack.
+   */
+  record(entry: HistoryEntry): void {
+    if (this.limit <= 0) return;
+    this.past.push(entry);
+    if (this.past.length > this.limit) this.past.shift();
+    this.future = [];
+  }
+
+  takeUndo(): HistoryEntry | undefined {
+    return this.past.pop();
+  }
+
+  takeRedo(): HistoryEntry | undefined {
+    return this.future.pop();
+  }
+
+  /**
+   * Put an entry back after a failed undo/redo, or move an undone entry to
+   * the other stack (without clearing redo like `record()` does)
+   */
+  pushUndo(entry: HistoryEntry): void {
+    this.past.push(entry);
+    if (this.past.length > this.limit) this.past.shift();
+  }
+
+  pushRedo(entry: HistoryEntry): void {
+    this.future.push(entry);
+  }
+
+  /**
+   * Undo entries oldest first, redo entries next-to-redo first
+   */
+  getEntries(): { undo: HistoryEntry[]; redo: HistoryEntry[] } {
+    return { undo: [...this.past], redo: [...this.future].reverse() };
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+}
@@ -10,9 +10,10 @@
 // Core exports
 import { StreamDeckClient } from './client';
 import { Animator } from './animator';
-import type { StreamDeckConfig } from './types';
+import type { RemoteClient } from './remote';
+import type { StreamDeckConfig, ControlSurface } from './types';
 
-export { StreamDeckClient } from './client';
+export { StreamDeckClient, ButtonChain, ButtonSelectionChain, SystemChain } from './client';
 export * from './types';
 
 // Utilities and helpers
@@ -21,6 +22,9 @@ export * from './presets';
 
 // Direct protocol exports (Node.js only)
 export type { RemoteCapabilities } from './client';
+export { RemoteClient } from './remote';
+export { FailoverClient, createFailoverClient } from './failover';
+export type { FailoverConfig, FailoverTransport, TransportHealth } from './failover';
 
 // Re-export commonly used items for convenience
 export {
@@ -28,6 +32,7 @@ export {
   type ButtonStyle,
   type StreamDeckConfig,
   type StreamDeckEvent,
+  type ControlSurface,
   StreamDeckError
 } from './types';
 
@@ -42,8 +47,45 @@ export {
 } from './utils';
 
 export { Animator } from './animator';
+export { createSampler, BLEND_MODES } from './animator';
+export type { AnimationOptions, Keyframe, KeyframeOptions, AnimationSpec, AnimationSampler, FrameSource, AnimationHandle, AnimationEnd, StopAnimationOptions, BlendMode } from './animator';
+export { AnimationTimeline } from './timeline';
+export { createTextSampler } from './text-animation';
+export type { MarqueeOptions, TypewriterOptions, CounterOptions, TickerOptions, TextAnimationSpec } from './text-animation';
+export type { TimelineOptions, TimelineClip } from './timeline';
+export { EASINGS, steps, cubicBezier, resolveEasing } from './easing';
+export type { Easing, EasingName, EasingFunction } from './easing';
 export * from './animations';
 export { createPreviewBridge } from './preview';
+export type { PreviewBridge } from './preview';
+export { FetchTransport, createFetchTransport } from './transport';
+export { runBatch } from './batch';
+export { RequestScheduler } from './scheduler';
+export type { SchedulerConfig, ScheduleOptions } from './scheduler';
+export { CircuitBreaker } from './circuit-breaker';
+export { isAbortError } from './abort';
+export { EventHub, matchesEvent } from './events';
+export type { StreamDeckEventListener, EventSelector } from './events';
+export { SessionRecorder, serializeSession, parseSession, loadSession, replaySession } from './recorder';
+export type { RecordableEvent, SessionEntry, EventSource, RecorderOptions, ReplayOptions, ReplayResult, ReplayTarget } from './recorder';
+export { BUTTON_STYLE_PROPERTIES, BUTTON_ALIGNMENTS, styleError, buttonStyleErrors } from './style';
+export { SNAPSHOT_VERSION, createSnapshot, parseSnapshot, diffSnapshot } from './snapshot';
+export type { ButtonSnapshot, SnapshotButton, ExportSnapshotOptions, RestoreSnapshotOptions, RestoreResult } from './snapshot';
+export { Transaction, runTransaction, describeStep } from './transaction';
+export type { TransactionStep, TransactionResult, TransactionFailure } from './transaction';
+export { CHAIN_DOCUMENT_VERSION, parseChainDocuments, serializeOperation } from './chain-document';
+export type { ChainDocument, ButtonChainDocument, SystemChainDocument, SerializedOperation } from './chain-document';
+export { ChangeHistory } from './history';
+export { ExecutionPlan, PlanTransport } from './plan';
+export type { PlanStep, PlannedRequest, PlannedCommand, SkippedUpdate } from './plan';
+
+// Test helpers (Node.js only)
+export { createFakeCompanion, FakeCompanionState } from './fake-companion';
+export type { FakeCompanion, FakeCompanionOptions, FakeErrorRule, RecordedRequest } from './fake-companion';
+export { createFakeRemoteServer } from './fake-remote';
+export type { FakeRemoteServer, FakeRemoteServerOptions, ReceivedCommand } from './fake-remote';
+export { parseRemoteCommand } from './remote';
+export type { ParsedRemoteCommand, RemoteConfig, SendCommandOptions } from './remote';
 
 // Factory function for easy client creation
 export function createStreamDeckClient(config: StreamDeckConfig): StreamDeckClient {
@@ -70,7 +112,7 @@ export function createRemoteStreamDeckClient(host: string, port: number = 8000):
 /**
  * Convenience factory for Animator
  */
-export function createAnimator(client: StreamDeckClient, fps: number = 15) {
+export function createAnimator(client: ControlSurface, fps: number = 15) {
   return new Animator(client, fps);
 }
 
@@ -101,7 +143,7 @@ export async function createDirectClient(
   protocol: 'tcp' | 'udp' = 'tcp',
   host: string = 'localhost',
   port: number = 16759
-): Promise<any> {
+): Promise<RemoteClient> {
   // Check if direct protocol is available
   const capabilities = StreamDeckClient.getRemoteCapabilities();
   if (!capabilities.available) {
@@ -0,0 +1,144 @@
+/**
+ * Dry-run plans
+ *
+ * ## Overview
+ * A client in dry-run mode (`StreamDeckConfig.dryRun` / `RemoteConfig.dryRun`)
+ * sends nothing. Every HTTP request or TCP/UDP command it would have sent is
+ * recorded, in order, in an `ExecutionPlan`, together with style updates the
+ * button cache skipped and the button style each update resolves to. Events
+ * are still emitted as if the operations had been sent.
+ *
+ * `client.plan(run)` runs code against a dry-run copy of a client (starting
+ * from the client's current cache) and returns the plan, leaving the live
+ * client untouched.
+ *
+ * ## Example
+ * ```ts
+ * const plan = await client.plan(dry => createEsportsScoreboard(dry, config));
+ * console.log(plan.toString());
+ * // Plan: 12 requests, 2 skipped
+ * //    1. POST /api/location/1/0/0/style {"text":"TEAM A","bgcolor":"#FF0000"} -> {"text":"TEAM A","bgcolor":"#FF0000"}
+ * //    -  skip 1/0/1 style {"text":"VS"} (cache already matches)
+ * ```
+ */
+
+import type { ButtonPosition, ButtonStyle, Transport, TransportRequest } from './types';
+
+// An HTTP request a dry-run StreamDeckClient would have sent
+export interface PlannedRequest {
+  type: 'request';
+  method: 'GET' | 'POST';
+  path: string;
+  query?: Record<string, string>;
+  body?: unknown;
+  resolved?: ButtonStyle; // style updates: the button's full cached style afterwards
+}
+
+// A command a dry-run RemoteClient would have sent
+export interface PlannedCommand {
+  type: 'command';
+  command: string;
+}
+
+// A style update the button cache would have skipped
+export interface SkippedUpdate {
+  type: 'skip';
+  position: ButtonPosition;
+  style: ButtonStyle;
+}
+
+export type PlanStep = PlannedRequest | PlannedCommand | SkippedUpdate;
+
+export class ExecutionPlan {
+  private steps: PlanStep[] = [];
+
+  add(step: PlanStep): void {
+    this.steps.push(step);
+  }
+
+  /**
+   * Attach the resolved style to the latest unresolved update of a button
+   */
+  resolve(position: ButtonPosition, style: ButtonStyle): void {
+    const path = stylePath(position);
+    for (let i = this.steps.length - 1; i >= 0; i--) {
+      const step = this.steps[i];
+      if (step.type === 'request' && step.path === path && !step.resolved) {
+        step.resolved = { ...style };
+        return;
+      }
+    }
+  }
+
+  getSteps(): PlanStep[] {
+    return [...this.steps];
+  }
+
+  clear(): void {
+    this.steps = [];
+  }
+
+  toJSON(): PlanStep[] {
+    return this.getSteps();
+  }
+
+  /**
+   * One line per step, numbered in send order; skipped updates are marked `-`
+   */
+  toString(): string {
+    const sent = this.steps.filter(step => step.type !== 'skip');
+    const skipped = this.steps.length - sent.length;
+    const noun = sent.some(step => step.type === 'command') ? 'command' : 'request';
+    const lines = [`Plan: ${sent.length} ${noun}${sent.length === 1 ? '' : 's'}, ${skipped} skipped`];
+
+    let index = 0;
+    for (const step of this.steps) {
+      if (step.type === 'skip') {
+        const { page, row, column } = step.position;
+        lines.push(`   -  skip ${page}/${row}/${column} style ${JSON.stringify(step.style)} (cache already matches)`);
+        continue;
+      }
+      lines.push(`${String(++index).padStart(4)}. ${describeStep(step)}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+function describeStep(step: PlannedRequest | PlannedCommand): string {
+  if (step.type === 'command') return step.command;
+
+  let line = `${step.method} ${step.path}`;
+  if (step.query) line += `?${new URLSearchParams(step.query).toString()}`;
+  if (step.body !== undefined) line += ` ${JSON.stringify(step.body)}`;
+  if (step.resolved) line += ` -> ${JSON.stringify(step.resolved)}`;
+  return line;
+}
+
+function stylePath(position: ButtonPosition): string {
+  return `/api/location/${position.page}/${position.row}/${position.column}/style`;
+}
+
+/**
+ * Transport that records requests into a plan instead of sending them.
+ * Resolves every request with an empty string (so `getCustomVariable()`
+ * returns '' in a dry run).
+ */
+export class PlanTransport implements Transport {
+  constructor(private plan: ExecutionPlan) {}
+
+  async request(request: TransportRequest): Promise<any> {
+    const url = new URL(request.url);
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+    this.plan.add({
+      type: 'request',
+      method: request.method,
+      path: url.pathname,
+      ...(Object.keys(query).length > 0 ? { query } : {}),
+      ...(request.body !== undefined ? { body: request.body } : {})
+    });
+    return '';
+  }
+}
@@ -4,8 +4,7 @@
  * Pre-configured button layouts and functions for common use cases
  */
 
-import { StreamDeckClient } from './client';
-import { ButtonPosition, ButtonStyle } from './types';
+import { ButtonPosition, ButtonStyle, ControlSurface } from './types';
 import { COLORS, BUTTON_PRESETS, createButtonStyle, formatNumber } from './utils';
 
 // =============================================================================
@@ -41,7 +40,7 @@ export interface PlayerStats {
  * Create esports scoreboard layout
  */
 export async function createEsportsScoreboard(
-  client: StreamDeckClient,
+  client: ControlSurface,
   page: number,
   matchData: EsportsMatchData
 ): Promise<void> {
@@ -104,7 +103,7 @@ export async function createEsportsScoreboard(
  * Create player stats display
  */
 export async function createPlayerStats(
-  client: StreamDeckClient,
+  client: ControlSurface,
   page: number,
   players: PlayerStats[],
   startRow: number = 2
@@ -142,7 +141,7 @@ export interface MediaControls {
  * Create media control layout
  */
 export async function createMediaControls(
-  client: StreamDeckClient,
+  client: ControlSurface,
   page: number,
   controls: MediaControls,
   startRow: number = 0
@@ -215,7 +214,7 @@ export interface StreamingStatus {
  * Create streaming dashboard
  */
 export async function createStreamingDashboard(
-  client: StreamDeckClient,
+  client: ControlSurface,
   page: number,
   status: StreamingStatus
 ): Promise<void> {
@@ -284,7 +283,7 @@ export interface SystemStats {
  * Create system monitoring display
  */
 export async function createSystemMonitor(
-  client: StreamDeckClient,
+  client: ControlSurface,
   page: number,
   stats: SystemStats,
   startRow: number = 0
@@ -376,7 +375,7 @@ export interface TimerConfig {
  * Create countdown timer display
  */
 export async function createCountdownTimer(
-  client: StreamDeckClient,
+  client: ControlSurface,
   position: ButtonPosition,
   remainingSeconds: number,
   config: TimerConfig
@@ -417,7 +416,7 @@ export interface SocialStats {
  * Create social media stats display
  */
 export async function createSocialStats(
-  client: StreamDeckClient,
+  client: ControlSurface,
   page: number,
   stats: SocialStats[],
   startRow: number = 0
@@ -452,7 +451,7 @@ export async function createSocialStats(
  * Create a simple toggle button
  */
 export async function createToggleButton(
-  client: StreamDeckClient,
+  client: ControlSurface,
   position: ButtonPosition,
   label: string,
   isActive: boolean,
@@ -471,7 +470,7 @@ export async function createToggleButton(
  * Create a progress bar button
  */
 export async function createProgressButton(
-  client: StreamDeckClient,
+  client: ControlSurface,
   position: ButtonPosition,
   label: string,
   percentage: number,
@@ -84,6 +84,7 @@ const CLIENT_JS = `// (placeholder) no extra JS needed inlined in index.html`;
 // Utility to create preview handlers that are easy to mount in any server.
 export function createPreviewBridge(client: StreamDeckClient, opts: PreviewOptions = {}) {
   const basePath = (opts.basePath || DEFAULT_BASE).replace(/\/$/, '');
+  const sockets: Set<any> = new Set();
 
   // Express-compatible middleware (req,res,next)
   function expressMiddleware(req: any, res: any, next: any) {
@@ -145,6 +146,8 @@ export function createPreviewBridge(client: StreamDeckClient, opts: PreviewOptio
   // WS connection handler: consumers should call this when they accept a WS connection
   // ws: any websocket instance with .on('message',...), .send(...) (works with ws, uWebSockets, Bun)
   function handleWsConnection(ws: any, req?: any) {
+    sockets.add(ws);
+
     ws.on('message', async (data: any) => {
       try {
         const msg = typeof data === 'string' ? JSON.parse(data) : JSON.parse(data.toString());
@@ -180,15 +183,27 @@ export function createPreviewBridge(client: StreamDeckClient, opts: PreviewOptio
 
     // cleanup on close
     if (ws.on) {
-      ws.on('close', () => { if (unsub) unsub(); });
+      ws.on('close', () => { sockets.delete(ws); if (unsub) unsub(); });
     }
   }
 
+  // Push a style to every connected preview without touching the device
+  // (used to replay recorded sessions into the preview)
+  function publish(position: ButtonPosition, style: ButtonStyle) {
+    const update = JSON.stringify({ type: 'update', position, style });
+    sockets.forEach(ws => {
+      try { ws.send(update); } catch (e) { /* ignore */ }
+    });
+  }
+
   return {
     basePath,
     expressMiddleware,
     nodeHandler,
     fetchHandler,
-    handleWsConnection
+    handleWsConnection,
+    publish
   };
 }
+
+export type PreviewBridge = ReturnType<typeof createPreviewBridge>;
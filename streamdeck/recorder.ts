@@ -0,0 +1,291 @@
+/**
+ * Session recording and replay
+ *
+ * ## Overview
+ * `SessionRecorder` listens to the events a `StreamDeckClient` or
+ * `RemoteClient` emits for every operation it sends (presses, steps, styles,
+ * variables, surface pages, rescans) and keeps them with their time offset
+ * from the start of the recording. Sessions are stored as JSON lines, one
+ * event per line, and can be replayed with `replaySession` against any
+ * `ControlSurface` (another Companion over HTTP or TCP/UDP) or a preview
+ * bridge, at real or scaled speed.
+ *
+ * ## Example
+ * ```ts
+ * const recorder = new SessionRecorder().record(client);
+ * // ... run the show ...
+ * recorder.stop();
+ * await recorder.save('show.jsonl');
+ *
+ * const session = await loadSession('show.jsonl');
+ * await replaySession(session, rehearsalClient, { speed: 2 });
+ * ```
+ */
+
+import type {
+  ButtonActionEvent,
+  ButtonStepEvent,
+  ControlSurface,
+  RescanEvent,
+  StreamDeckEvent,
+  StyleUpdateEvent,
+  SurfacePageEvent,
+  VariableSetEvent
+} from './types';
+import { StreamDeckError } from './types';
+import { delay, isAbortError, throwIfAborted } from './abort';
+import { matchesEvent } from './events';
+import type { EventSelector } from './events';
+import type { RemoteClient } from './remote';
+import type { PreviewBridge } from './preview';
+
+// Events that correspond to something sent to Companion
+export type RecordableEvent =
+  | ButtonActionEvent
+  | ButtonStepEvent
+  | StyleUpdateEvent
+  | VariableSetEvent
+  | SurfacePageEvent
+  | RescanEvent;
+
+// One recorded event; `offset` is ms since the recording started
+export type SessionEntry = RecordableEvent & { offset: number };
+
+// Anything that emits client events (StreamDeckClient, RemoteClient, FailoverClient)
+export interface EventSource {
+  addEventListener(listener: (event: StreamDeckEvent) => void): () => void;
+}
+
+export interface RecorderOptions {
+  // Receives each entry as a JSON line as soon as it is recorded,
+  // e.g. `fs.createWriteStream('show.jsonl', { flags: 'a' })`
+  output?: { write(line: string): unknown };
+}
+
+export interface ReplayOptions {
+  speed?: number; // playback rate, 2 = twice as fast, Infinity = no waiting (default: 1)
+  signal?: AbortSignal; // stop the replay
+  stopOnError?: boolean; // reject on the first failed entry instead of continuing (default: false)
+  onEntry?: (entry: SessionEntry) => void; // called before each entry is sent
+}
+
+export interface ReplayResult {
+  replayed: number;
+  skipped: number; // entries the target cannot perform (e.g. surface pages over HTTP)
+  errors: Array<{ entry: SessionEntry; error: Error }>;
+  duration: number;
+}
+
+// A surface, a TCP/UDP client (which also handles surface page entries) or a preview bridge
+export type ReplayTarget = ControlSurface | RemoteClient | PreviewBridge;
+
+const RECORDED: EventSelector = ['button', 'style', 'variable:set', 'surface', 'system:rescan'];
+
+export class SessionRecorder {
+  private entries: SessionEntry[] = [];
+  private unsubscribers: Array<() => void> = [];
+  private startedAt?: number;
+  private output?: RecorderOptions['output'];
+
+  constructor(options: RecorderOptions = {}) {
+    this.output = options.output;
+  }
+
+  /**
+   * Start recording the operations sent by one or more clients.
+   * The first call sets the recording's start time.
+   */
+  record(...sources: EventSource[]): this {
+    if (this.startedAt === undefined) this.startedAt = Date.now();
+
+    for (const source of sources) {
+      this.unsubscribers.push(source.addEventListener(event => {
+        if (matchesEvent(event, RECORDED)) this.add(event as RecordableEvent);
+      }));
+    }
+    return this;
+  }
+
+  /**
+   * Stop listening to all sources and return the recorded entries
+   */
+  stop(): SessionEntry[] {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    return this.getEntries();
+  }
+
+  isRecording(): boolean {
+    return this.unsubscribers.length > 0;
+  }
+
+  getEntries(): SessionEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Drop recorded entries and restart the clock on the next `record()`
+   */
+  clear(): void {
+    this.entries = [];
+    this.startedAt = this.isRecording() ? Date.now() : undefined;
+  }
+
+  /**
+   * The session as JSON lines
+   */
+  toJSONLines(): string {
+    return serializeSession(this.entries);
+  }
+
+  /**
+   * Write the session to a JSON-lines file (Node.js only)
+   */
+  async save(path: string): Promise<void> {
+    const fs = await loadFs();
+    await fs.promises.writeFile(path, this.toJSONLines(), 'utf8');
+  }
+
+  private add(event: RecordableEvent): void {
+    const entry = { ...event, offset: Math.max(0, event.timestamp - (this.startedAt as number)) } as SessionEntry;
+    this.entries.push(entry);
+    this.output?.write(JSON.stringify(entry) + '\n');
+  }
+}
+
+/**
+ * Serialize entries as JSON lines
+ */
+export function serializeSession(entries: SessionEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry) + '\n').join('');
+}
+
+/**
+ * Parse a JSON-lines session. Throws `INVALID_SESSION` (with the line number)
+ * for malformed lines; blank lines are ignored. Entries are sorted by offset.
+ */
+export function parseSession(text: string): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+
+  text.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      throw new StreamDeckError(`Invalid session line ${index + 1}: not JSON`, 'INVALID_SESSION', undefined, line);
+    }
+    if (!entry || typeof entry.offset !== 'number' || !matchesEvent(entry, RECORDED)) {
+      throw new StreamDeckError(`Invalid session line ${index + 1}: not a recorded event`, 'INVALID_SESSION', undefined, line);
+    }
+    entries.push(entry);
+  });
+
+  return entries.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Read a JSON-lines session file (Node.js only)
+ */
+export async function loadSession(path: string): Promise<SessionEntry[]> {
+  const fs = await loadFs();
+  return parseSession(await fs.promises.readFile(path, 'utf8'));
+}
+
+/**
+ * Replay recorded entries against a target, keeping their relative timing
+ * (scaled by `speed`). Failed entries are collected in the result unless
+ * `stopOnError` is set; aborting rejects with `ABORTED`.
+ */
+export async function replaySession(
+  entries: SessionEntry[],
+  target: ReplayTarget,
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const speed = options.speed ?? 1;
+  if (!(speed > 0)) {
+    throw new StreamDeckError(`Replay speed must be greater than 0, got ${speed}`, 'INVALID_SPEED');
+  }
+
+  const startTime = Date.now();
+  const result: ReplayResult = { replayed: 0, skipped: 0, errors: [], duration: 0 };
+
+  for (const entry of entries) {
+    const wait = startTime + entry.offset / speed - Date.now();
+    if (wait > 0) await delay(wait, options.signal);
+    throwIfAborted(options.signal);
+
+    options.onEntry?.(entry);
+    try {
+      if (await replayEntry(entry, target)) result.replayed++;
+      else result.skipped++;
+    } catch (error) {
+      if (isAbortError(error) || options.stopOnError) throw error;
+      result.errors.push({ entry, error: error as Error });
+    }
+  }
+
+  result.duration = Date.now() - startTime;
+  return result;
+}
+
+/**
+ * Send one entry to the target. Resolves false when the target has no
+ * equivalent operation.
+ */
+async function replayEntry(entry: SessionEntry, target: ReplayTarget): Promise<boolean> {
+  if ('publish' in target) {
+    if (entry.type !== 'style') return false;
+    target.publish(entry.position, entry.data);
+    return true;
+  }
+
+  switch (entry.type) {
+    case 'button':
+      switch (entry.action) {
+        case 'press': await target.pressButton(entry.position); break;
+        case 'down': await target.pressButtonDown(entry.position); break;
+        case 'up': await target.releaseButton(entry.position); break;
+        case 'rotate-left': await target.rotateLeft(entry.position); break;
+        case 'rotate-right': await target.rotateRight(entry.position); break;
+        case 'step': await target.setButtonStep(entry.position, entry.data.step); break;
+      }
+      return true;
+
+    case 'style':
+      await target.updateButtonStyleBody(entry.position, entry.data);
+      return true;
+
+    case 'variable':
+      await target.setCustomVariable(entry.data.name, entry.data.value);
+      return true;
+
+    case 'system':
+      await target.rescanSurfaces();
+      return true;
+
+    case 'surface': {
+      if (!('setSurfacePage' in target)) return false; // no HTTP equivalent
+      const { surfaceId, page } = entry.data;
+      if (entry.action === 'page-set') await target.setSurfacePage(surfaceId, page as number);
+      else if (entry.action === 'page-up') await target.surfacePageUp(surfaceId);
+      else await target.surfacePageDown(surfaceId);
+      return true;
+    }
+  }
+}
+
+async function loadFs(): Promise<any> {
+  try {
+    return await import('fs');
+  } catch (error) {
+    throw new StreamDeckError(
+      'Failed to import Node.js fs module',
+      'NODE_MODULES_UNAVAILABLE',
+      undefined,
+      error
+    );
+  }
+}
@@ -44,8 +44,26 @@
  * ```
  */
 
-import type { ButtonPosition, ButtonStyle, CustomVariable } from './types';
+import type {
+  ButtonPosition,
+  ButtonStyle,
+  ButtonAction,
+  CustomVariable,
+  BatchOperation,
+  BatchOptions,
+  BatchResult,
+  ControlSurface,
+  EventOf,
+  EventStreamOptions,
+  StreamDeckEvent,
+  StreamDeckEventKey,
+  SurfacePageEvent
+} from './types';
 import { StreamDeckError } from './types';
+import { runBatch } from './batch';
+import { EventHub } from './events';
+import { ExecutionPlan } from './plan';
+import type { EventSelector } from './events';
 
 // Type declarations for Node.js modules (when available)
 declare global {
@@ -100,6 +118,34 @@ export interface RemoteConfig {
   timeout?: number;
   reconnectAttempts?: number;
   reconnectDelay?: number;
+  acknowledge?: boolean; // TCP only: resolve commands on +OK, reject on -ERR (default: false)
+  commandTimeout?: number; // ms to wait for an acknowledgement (default: timeout)
+  dryRun?: boolean; // Record commands in getPlan() instead of sending them; no connection is made (default: false)
+}
+
+// Per-command options for sendCommand
+export interface SendCommandOptions {
+  acknowledge?: boolean; // override RemoteConfig.acknowledge for this command
+  timeout?: number; // override RemoteConfig.commandTimeout for this command
+}
+
+// A command waiting for its +OK/-ERR reply. Replies arrive in order over the
+// TCP stream, so entries stay queued (marked settled) even after timing out to
+// keep later replies matched to the right command.
+interface PendingAck {
+  command: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: any;
+  settled: boolean;
+}
+
+// A command sent while disconnected; settled once the queue is flushed
+interface QueuedCommand {
+  command: string;
+  options: SendCommandOptions;
+  resolve: () => void;
+  reject: (error: Error) => void;
 }
 
 export interface SurfaceCommand {
@@ -120,13 +166,145 @@ export interface StyleCommand {
   value: string;
 }
 
-export class RemoteClient {
+export interface CustomVariableCommand {
+  name: string;
+  value: string;
+}
+
+// A remote command string parsed back into its structured form
+export type ParsedRemoteCommand =
+  | ({ kind: 'surface' } & SurfaceCommand)
+  | ({ kind: 'location' } & LocationCommand)
+  | ({ kind: 'style' } & StyleCommand)
+  | ({ kind: 'custom-variable' } & CustomVariableCommand)
+  | { kind: 'rescan' };
+
+const LOCATION_ACTIONS: LocationCommand['action'][] = ['PRESS', 'DOWN', 'UP', 'ROTATE-LEFT', 'ROTATE-RIGHT', 'SET-STEP'];
+const STYLE_PROPERTIES: StyleCommand['property'][] = ['TEXT', 'COLOR', 'BGCOLOR'];
+
+/**
+ * Parse a Companion remote command string (the grammar documented at the top
+ * of this module). Throws a `StreamDeckError` with code `INVALID_COMMAND` when
+ * the command does not match.
+ *
+ * @example
+ * parseRemoteCommand('LOCATION 1/2/3 PRESS');
+ * // { kind: 'location', position: { page: 1, row: 2, column: 3 }, action: 'PRESS' }
+ */
+export function parseRemoteCommand(command: string): ParsedRemoteCommand {
+  const line = command.replace(/\r?\n$/, '');
+  const invalid = (reason: string) => new StreamDeckError(`${reason}: ${line}`, 'INVALID_COMMAND', undefined, line);
+  const [keyword, target, action, ...rest] = line.split(' ');
+
+  switch (keyword?.toUpperCase()) {
+    case 'SURFACES': {
+      if (target?.toUpperCase() !== 'RESCAN' || action !== undefined) throw invalid('Syntax error');
+      return { kind: 'rescan' };
+    }
+
+    case 'SURFACE': {
+      const surfaceAction = action?.toUpperCase();
+      if (!target) throw invalid('Missing surface id');
+      if (surfaceAction === 'PAGE-SET') {
+        const pageNumber = Number(rest[0]);
+        if (rest.length !== 1 || !Number.isInteger(pageNumber)) throw invalid('Invalid page number');
+        return { kind: 'surface', surfaceId: target, action: 'PAGE-SET', pageNumber };
+      }
+      if ((surfaceAction === 'PAGE-UP' || surfaceAction === 'PAGE-DOWN') && rest.length === 0) {
+        return { kind: 'surface', surfaceId: target, action: surfaceAction };
+      }
+      throw invalid('Syntax error');
+    }
+
+    case 'LOCATION': {
+      const coords = (target || '').split('/').map(Number);
+      if (coords.length !== 3 || !coords.every(Number.isInteger)) throw invalid('Invalid location');
+      const position = { page: coords[0], row: coords[1], column: coords[2] };
+      const locationAction = action?.toUpperCase();
+
+      if (locationAction === 'STYLE') {
+        const property = rest[0]?.toUpperCase() as StyleCommand['property'];
+        if (!STYLE_PROPERTIES.includes(property)) throw invalid('Invalid style property');
+        // Text may contain spaces; take everything after the property name
+        const value = line.split(' ').slice(4).join(' ');
+        if (property !== 'TEXT' && !/^#?[0-9A-F]{6}$/i.test(value)) throw invalid('Invalid color');
+        return { kind: 'style', position, property, value };
+      }
+
+      if (!LOCATION_ACTIONS.includes(locationAction as LocationCommand['action'])) throw invalid('Unknown location action');
+
+      if (locationAction === 'SET-STEP') {
+        const step = Number(rest[0]);
+        if (rest.length !== 1 || !Number.isInteger(step)) throw invalid('Invalid step');
+        return { kind: 'location', position, action: 'SET-STEP', step };
+      }
+
+      if (rest.length !== 0) throw invalid('Syntax error');
+      return { kind: 'location', position, action: locationAction as LocationCommand['action'] };
+    }
+
+    case 'CUSTOM-VARIABLE': {
+      if (!target || action?.toUpperCase() !== 'SET-VALUE') throw invalid('Syntax error');
+      return { kind: 'custom-variable', name: target, value: rest.join(' ') };
+    }
+
+    default:
+      throw invalid('Unknown command');
+  }
+}
+
+/**
+ * The domain event a sent command corresponds to, shaped like the events the
+ * HTTP client emits for the same operation. Undefined for unparseable commands.
+ */
+function commandEvent(command: string): StreamDeckEvent | undefined {
+  let parsed: ParsedRemoteCommand;
+  try {
+    parsed = parseRemoteCommand(command);
+  } catch {
+    return undefined;
+  }
+  const timestamp = Date.now();
+
+  switch (parsed.kind) {
+    case 'location':
+      if (parsed.action === 'SET-STEP') {
+        return { type: 'button', action: 'step', position: parsed.position, data: { step: parsed.step as number }, timestamp };
+      }
+      return { type: 'button', action: parsed.action.toLowerCase() as ButtonAction, position: parsed.position, timestamp };
+
+    case 'style': {
+      const key = parsed.property.toLowerCase() as 'text' | 'color' | 'bgcolor';
+      return { type: 'style', action: 'update', position: parsed.position, data: { [key]: parsed.value }, timestamp };
+    }
+
+    case 'custom-variable':
+      return { type: 'variable', action: 'set', data: { name: parsed.name, value: parsed.value }, timestamp };
+
+    case 'surface':
+      return {
+        type: 'surface',
+        action: parsed.action.toLowerCase() as SurfacePageEvent['action'],
+        data: { surfaceId: parsed.surfaceId, page: parsed.pageNumber },
+        timestamp
+      };
+
+    case 'rescan':
+      return { type: 'system', action: 'rescan', timestamp };
+  }
+}
+
+export class RemoteClient implements ControlSurface {
   private config: Required<RemoteConfig>;
   private socket: any = null;
   private connected: boolean = false;
   private reconnectTimer: any = null;
-  private messageQueue: string[] = [];
-  private eventListeners: Set<(event: any) => void> = new Set();
+  private messageQueue: QueuedCommand[] = [];
+  private pendingAcks: PendingAck[] = [];
+  private receiveBuffer: string = '';
+  private disconnecting: boolean = false;
+  private eventHub = new EventHub('RemoteClient');
+  private executionPlan: ExecutionPlan | null = null; // set in dry-run mode
 
   constructor(config: RemoteConfig = {}) {
     this.config = {
@@ -135,20 +313,28 @@ export class RemoteClient {
       protocol: config.protocol || 'tcp',
       timeout: config.timeout || 5000,
       reconnectAttempts: config.reconnectAttempts || 3,
-      reconnectDelay: config.reconnectDelay || 1000
+      reconnectDelay: config.reconnectDelay || 1000,
+      acknowledge: config.acknowledge || false,
+      commandTimeout: config.commandTimeout || config.timeout || 5000,
+      dryRun: config.dryRun || false
     };
+    if (this.config.dryRun) this.executionPlan = new ExecutionPlan();
   }
 
   /**
    * Connect to StreamDeck Companion
    */
   async connect(): Promise<void> {
+    if (this.executionPlan) return; // dry run: nothing to connect to
+
     await ensureNodeModules();
     
     if (this.connected) {
       return;
     }
 
+    this.disconnecting = false;
+
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         this.cleanup();
@@ -178,6 +364,7 @@ export class RemoteClient {
 
   private connectTcp(resolve: () => void, reject: (error: Error) => void, timeout: any) {
     this.socket = new net.Socket();
+    this.receiveBuffer = '';
     
     this.socket.connect(this.config.port, this.config.host, () => {
       clearTimeout(timeout);
@@ -208,17 +395,30 @@ export class RemoteClient {
 
     this.socket.on('close', () => {
       this.connected = false;
+      this.rejectPendingAcks(new StreamDeckError('Connection closed before acknowledgement', 'CONNECTION_CLOSED'));
+      if (this.disconnecting) return; // deliberate disconnect() already emitted
       this.emitEvent({ type: 'connection', action: 'disconnected', timestamp: Date.now() });
       this.attemptReconnect();
     });
 
     this.socket.on('data', (data: Buffer) => {
-      this.emitEvent({ 
-        type: 'message', 
-        action: 'received', 
-        data: data.toString().trim(), 
-        timestamp: Date.now() 
-      });
+      // Companion replies are line-delimited; a chunk may hold several lines or a partial one
+      this.receiveBuffer += data.toString();
+      const lines = this.receiveBuffer.split('\n');
+      this.receiveBuffer = lines.pop() || '';
+
+      for (const raw of lines) {
+        const line = raw.trim();
+        if (!line) continue;
+
+        this.emitEvent({ 
+          type: 'message', 
+          action: 'received', 
+          data: line, 
+          timestamp: Date.now() 
+        });
+        this.handleReply(line);
+      }
     });
   }
 
@@ -259,6 +459,8 @@ export class RemoteClient {
    * Disconnect from StreamDeck Companion
    */
   async disconnect(): Promise<void> {
+    this.disconnecting = true;
+
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
@@ -274,24 +476,61 @@ export class RemoteClient {
     }
 
     this.connected = false;
+    this.rejectPendingAcks(new StreamDeckError('Disconnected before acknowledgement', 'CONNECTION_CLOSED'));
     this.emitEvent({ type: 'connection', action: 'disconnected', timestamp: Date.now() });
   }
 
   /**
-   * Send a raw command string
+   * Send a raw command string.
+   *
+   * By default the promise resolves once the command has been written to the
+   * socket. In acknowledged mode (`RemoteConfig.acknowledge` or
+   * `options.acknowledge`, TCP only) it resolves on Companion's matching `+OK`
+   * and rejects with a `StreamDeckError` on `-ERR` (`COMMAND_REJECTED`) or when
+   * no reply arrives in time (`COMMAND_TIMEOUT`).
+   *
+   * @example
+   * ```ts
+   * await remote.sendCommand('LOCATION 1/2/3 PRESS', { acknowledge: true, timeout: 1000 });
+   * ```
    */
-  async sendCommand(command: string): Promise<void> {
+  async sendCommand(command: string, options: SendCommandOptions = {}): Promise<void> {
+    if (this.executionPlan) {
+      this.executionPlan.add({ type: 'command', command });
+      this.emitEvent({ type: 'command', action: 'sent', data: command, timestamp: Date.now() });
+      const event = commandEvent(command);
+      if (event) this.emitEvent(event);
+      return;
+    }
+
     if (!this.connected) {
       if (this.config.reconnectAttempts > 0) {
-        this.messageQueue.push(command);
-        await this.connect();
-        return;
+        let entry!: QueuedCommand;
+        const sent = new Promise<void>((resolve, reject) => {
+          entry = { command, options, resolve, reject };
+        });
+        this.messageQueue.push(entry);
+        try {
+          await this.connect();
+        } catch (error) {
+          // Don't leave the command queued for a later connection the caller never sees
+          this.messageQueue = this.messageQueue.filter(queued => queued !== entry);
+          throw error;
+        }
+        return sent;
       } else {
         throw new StreamDeckError('Not connected to StreamDeck Companion', 'NOT_CONNECTED');
       }
     }
 
-    return new Promise((resolve, reject) => {
+    const acknowledge = this.config.protocol === 'tcp' && (options.acknowledge ?? this.config.acknowledge);
+    // Companion replies to every TCP command, so each one takes a reply slot to
+    // keep later replies matched to their own commands
+    const slot = this.config.protocol === 'tcp'
+      ? this.expectAck(command, acknowledge ? options.timeout ?? this.config.commandTimeout : undefined)
+      : undefined;
+
+    const written = new Promise<void>((resolve, reject) => {
       try {
         if (this.config.protocol === 'tcp') {
           this.socket.write(command + '\n', (error: Error) => {
@@ -341,7 +580,17 @@ export class RemoteClient {
           error
         ));
       }
+    }).catch(error => {
+      if (slot) this.cancelAck(slot.pending);
+      throw error;
     });
+
+    // Await both together: the ack can fail (timeout, connection closed)
+    // before the write callback runs, and neither rejection may go unhandled
+    await Promise.all([written, slot?.acked]);
+
+    const event = commandEvent(command);
+    if (event) this.emitEvent(event);
   }
 
   // =============================================================================
@@ -469,7 +718,9 @@ export class RemoteClient {
   }
 
   /**
-   * Update multiple button style properties
+   * Update multiple button style properties.
+   * The remote protocol only supports text, color and bgcolor; other
+   * properties (e.g. size) are ignored.
    */
   async updateButtonStyle(position: ButtonPosition, style: ButtonStyle): Promise<void> {
     const commands: string[] = [];
@@ -495,6 +746,27 @@ export class RemoteClient {
     }
   }
 
+  /**
+   * Alias of `updateButtonStyle` so code written against `ControlSurface`
+   * (which uses the HTTP client's body-style update) works unchanged. The
+   * remote protocol has no request body; one STYLE command is sent per property.
+   */
+  async updateButtonStyleBody(position: ButtonPosition, style: ButtonStyle): Promise<void> {
+    await this.updateButtonStyle(position, style);
+  }
+
+  // =============================================================================
+  // BATCH OPERATIONS
+  // =============================================================================
+
+  /**
+   * Execute multiple operations with bounded concurrency and per-key ordering.
+   * See `StreamDeckClient.executeBatch` for details.
+   */
+  async executeBatch(operations: BatchOperation[], options: BatchOptions = {}): Promise<BatchResult> {
+    return runBatch(this, operations, options);
+  }
+
   // =============================================================================
   // CUSTOM VARIABLES
   // =============================================================================
@@ -540,22 +812,56 @@ export class RemoteClient {
   }
 
   /**
-   * Add event listener for remote operations
+   * The commands recorded so far by a dry-run client (`dryRun: true`),
+   * or null for a live client
    */
-  addEventListener(listener: (event: any) => void): () => void {
-    this.eventListeners.add(listener);
-    
-    // Return unsubscribe function
-    return () => {
-      this.eventListeners.delete(listener);
-    };
+  getPlan(): ExecutionPlan | null {
+    return this.executionPlan;
+  }
+
+  /**
+   * Run `run` against a dry-run copy of this client and return the commands
+   * it would have sent. Nothing is sent and no connection is made.
+   */
+  async plan(run: (client: RemoteClient) => unknown): Promise<ExecutionPlan> {
+    const dry = new RemoteClient({ ...this.config, dryRun: true });
+    await run(dry);
+    return dry.executionPlan as ExecutionPlan;
+  }
+
+  /**
+   * Add event listener for remote operations. Besides connection and raw
+   * `command`/`message` events, every command that is sent (and acknowledged,
+   * in acknowledged mode) emits the same button/style/variable event the HTTP
+   * client emits.
+   */
+  addEventListener(listener: (event: StreamDeckEvent) => void): () => void {
+    return this.eventHub.add(listener);
+  }
+
+  /**
+   * Add a listener for events matching a key, several keys or a filter object.
+   * See `StreamDeckClient.on`.
+   */
+  on<K extends StreamDeckEventKey>(selector: EventSelector<K>, listener: (event: EventOf<K>) => void): () => void {
+    return this.eventHub.on(selector, listener);
+  }
+
+  /**
+   * Iterate over matching events with `for await`. See `StreamDeckClient.events`.
+   */
+  events<K extends StreamDeckEventKey = StreamDeckEventKey>(
+    selector?: EventSelector<K>,
+    options?: EventStreamOptions
+  ): AsyncIterableIterator<EventOf<K>> {
+    return this.eventHub.stream(selector, options);
   }
 
   /**
-   * Remove all event listeners
+   * Remove all event listeners and end active event streams
    */
   removeAllEventListeners(): void {
-    this.eventListeners.clear();
+    this.eventHub.clear();
   }
 
   // =============================================================================
@@ -578,14 +884,8 @@ export class RemoteClient {
     this.connected = false;
   }
 
-  private emitEvent(event: any): void {
-    this.eventListeners.forEach(listener => {
-      try {
-        listener(event);
-      } catch (error) {
-        console.error('Error in RemoteClient event listener:', error);
-      }
-    });
+  private emitEvent(event: StreamDeckEvent): void {
+    this.eventHub.emit(event);
   }
 
   private flushMessageQueue(): void {
@@ -594,16 +894,92 @@ export class RemoteClient {
       this.messageQueue = [];
       
       // Send queued messages with delays
-      queue.forEach((command, index) => {
+      queue.forEach((entry, index) => {
         setTimeout(() => {
-          this.sendCommand(command).catch(error => {
-            console.error('Failed to send queued command:', error);
-          });
+          this.sendCommand(entry.command, entry.options).then(entry.resolve, entry.reject);
         }, index * 50); // 50ms delay between commands
       });
     }
   }
 
+  /**
+   * Register a command awaiting its +OK/-ERR reply. Without a timeout the
+   * command isn't acknowledged: its slot only consumes the reply.
+   */
+  private expectAck(command: string, timeout?: number): { pending: PendingAck; acked?: Promise<void> } {
+    if (timeout === undefined) {
+      const pending: PendingAck = { command, resolve: () => {}, reject: () => {}, timer: null, settled: false };
+      this.pendingAcks.push(pending);
+      return { pending };
+    }
+    let pending!: PendingAck;
+    const acked = new Promise<void>((resolve, reject) => {
+      pending = { command, resolve, reject, timer: null, settled: false };
+      pending.timer = setTimeout(() => {
+        if (pending.settled) return;
+        pending.settled = true;
+        reject(new StreamDeckError(
+          `No acknowledgement after ${timeout}ms: ${command}`,
+          'COMMAND_TIMEOUT',
+          undefined,
+          { command }
+        ));
+      }, timeout);
+      this.pendingAcks.push(pending);
+    });
+    return { pending, acked };
+  }
+
+  /**
+   * Drop the reply slot of a command that failed to send
+   */
+  private cancelAck(pending: PendingAck): void {
+    const index = this.pendingAcks.indexOf(pending);
+    clearTimeout(pending.timer);
+    pending.settled = true;
+    if (index !== -1) this.pendingAcks.splice(index, 1);
+  }
+
+  /**
+   * Match a reply line to the oldest pending command
+   */
+  private handleReply(line: string): void {
+    const isOk = line.startsWith('+OK');
+    const isErr = line.startsWith('-ERR');
+    if (!isOk && !isErr) return;
+
+    const pending = this.pendingAcks.shift();
+    if (!pending || pending.settled) return; // unsolicited reply, or its command already timed out
+
+    clearTimeout(pending.timer);
+    pending.settled = true;
+
+    if (isOk) {
+      pending.resolve();
+    } else {
+      const message = line.slice(4).trim() || 'Unknown error';
+      pending.reject(new StreamDeckError(
+        `Companion rejected command "${pending.command}": ${message}`,
+        'COMMAND_REJECTED',
+        undefined,
+        { command: pending.command, response: line }
+      ));
+    }
+  }
+
+  private rejectPendingAcks(error: StreamDeckError): void {
+    const pending = this.pendingAcks;
+    this.pendingAcks = [];
+    this.receiveBuffer = '';
+    pending.forEach(entry => {
+      clearTimeout(entry.timer);
+      if (!entry.settled) {
+        entry.settled = true;
+        entry.reject(error);
+      }
+    });
+  }
+
   private attemptReconnect(): void {
     if (this.reconnectTimer) {
       return; // Already attempting reconnect
@@ -0,0 +1,180 @@
+/**
+ * Request scheduler
+ *
+ * ## Overview
+ * Every HTTP request made by a `StreamDeckClient` passes through one
+ * `RequestScheduler`. It enforces a requests-per-second budget and a limit on
+ * requests in flight, and serves three priority lanes in order: `high`
+ * (button actions), `normal` (styles, variables) and `animation` (frames).
+ * A queued animation frame is dropped as soon as a newer frame for the same
+ * key is scheduled; its promise rejects with `REQUEST_DROPPED`. A task whose
+ * `signal` fires while it is still queued is removed and rejects with `ABORTED`.
+ *
+ * ## Example
+ * ```ts
+ * const scheduler = new RequestScheduler({ requestsPerSecond: 30 });
+ * await scheduler.schedule(() => fetch(url), { priority: 'high' });
+ * scheduler.getStats(); // { queued: { high: 0, normal: 0, animation: 0 }, active: 0, ... }
+ * ```
+ */
+
+import type { RequestPriority, SchedulerStats } from './types';
+import { StreamDeckError } from './types';
+import { abortError } from './abort';
+
+export interface SchedulerConfig {
+  requestsPerSecond?: number; // default: unlimited
+  maxConcurrent?: number; // default: 8
+  // Called when the queue depth changes or a frame is dropped
+  onChange?: (stats: SchedulerStats, reason: 'queue' | 'drop') => void;
+}
+
+export interface ScheduleOptions {
+  priority?: RequestPriority; // default: 'normal'
+  key?: string; // identifies the target of animation frames (e.g. a button key)
+  signal?: AbortSignal; // remove the task from the queue when fired
+}
+
+interface ScheduledTask {
+  run: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  key?: string;
+  cleanup?: () => void;
+}
+
+const LANE_ORDER: RequestPriority[] = ['high', 'normal', 'animation'];
+
+export class RequestScheduler {
+  private lanes: Record<RequestPriority, ScheduledTask[]> = { high: [], normal: [], animation: [] };
+  private requestsPerSecond: number;
+  private maxConcurrent: number;
+  private onChange?: SchedulerConfig['onChange'];
+  private active = 0;
+  private completed = 0;
+  private dropped = 0;
+  private nextStart = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private lastDepth = 0;
+
+  constructor(config: SchedulerConfig = {}) {
+    this.requestsPerSecond = Math.max(0, config.requestsPerSecond || 0);
+    this.maxConcurrent = Math.max(1, config.maxConcurrent || 8);
+    this.onChange = config.onChange;
+  }
+
+  /**
+   * Queue a task and resolve with its result once it has run
+   */
+  schedule<T>(run: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const priority = options.priority || 'normal';
+
+    return new Promise<T>((resolve, reject) => {
+      const signal = options.signal;
+      if (signal?.aborted) {
+        reject(abortError(signal));
+        return;
+      }
+
+      if (priority === 'animation' && options.key !== undefined) {
+        this.dropStaleFrame(options.key);
+      }
+
+      const task: ScheduledTask = { run, resolve, reject, key: options.key };
+      if (signal) {
+        const onAbort = () => {
+          const lane = this.lanes[priority];
+          const index = lane.indexOf(task);
+          if (index === -1) return; // already started
+          lane.splice(index, 1);
+          reject(abortError(signal));
+          this.reportDepth();
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        task.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.lanes[priority].push(task);
+      this.pump();
+      this.reportDepth();
+    });
+  }
+
+  /**
+   * Change the requests-per-second budget (0 = unlimited)
+   */
+  setRequestsPerSecond(requestsPerSecond: number): void {
+    this.requestsPerSecond = Math.max(0, requestsPerSecond);
+    this.pump();
+  }
+
+  getStats(): SchedulerStats {
+    return {
+      queued: {
+        high: this.lanes.high.length,
+        normal: this.lanes.normal.length,
+        animation: this.lanes.animation.length
+      },
+      active: this.active,
+      completed: this.completed,
+      dropped: this.dropped
+    };
+  }
+
+  private dropStaleFrame(key: string): void {
+    const lane = this.lanes.animation;
+    const index = lane.findIndex(task => task.key === key);
+    if (index === -1) return;
+
+    const [stale] = lane.splice(index, 1);
+    stale.cleanup?.();
+    this.dropped++;
+    stale.reject(new StreamDeckError(
+      `Animation frame for ${key} superseded by a newer frame`,
+      'REQUEST_DROPPED'
+    ));
+    this.onChange?.(this.getStats(), 'drop');
+  }
+
+  /**
+   * Start as many queued tasks as the concurrency limit and rate budget allow
+   */
+  private pump(): void {
+    while (this.active < this.maxConcurrent) {
+      const lane = LANE_ORDER.find(priority => this.lanes[priority].length > 0);
+      if (!lane) return;
+
+      if (this.requestsPerSecond > 0) {
+        const now = Date.now();
+        if (now < this.nextStart) {
+          if (!this.timer) {
+            this.timer = setTimeout(() => {
+              this.timer = undefined;
+              this.pump();
+              this.reportDepth();
+            }, this.nextStart - now);
+          }
+          return;
+        }
+        this.nextStart = now + 1000 / this.requestsPerSecond;
+      }
+
+      const task = this.lanes[lane].shift() as ScheduledTask;
+      task.cleanup?.();
+      this.active++;
+      task.run().then(task.resolve, task.reject).finally(() => {
+        this.active--;
+        this.completed++;
+        this.pump();
+        this.reportDepth();
+      });
+    }
+  }
+
+  private reportDepth(): void {
+    const depth = LANE_ORDER.reduce((sum, priority) => sum + this.lanes[priority].length, 0);
+    if (depth === this.lastDepth) return;
+    this.lastDepth = depth;
+    this.onChange?.(this.getStats(), 'queue');
+  }
+}
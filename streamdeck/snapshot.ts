@@ -0,0 +1,134 @@
+/**
+ * Button cache snapshots
+ *
+ * ## Overview
+ * A snapshot is a versioned, JSON-serializable copy of the button styles a
+ * `StreamDeckClient` has cached. Save one per "look" (pre-show, live, break)
+ * and bring it back with `client.restoreSnapshot()`, which only sends the
+ * buttons whose cached style differs from the snapshot. After a Companion
+ * restart, restore with `force: true` to resend every button.
+ *
+ * ## Example
+ * ```ts
+ * const preShow = client.exportSnapshot({ name: 'pre-show' });
+ * fs.writeFileSync('pre-show.json', JSON.stringify(preShow));
+ *
+ * await client.restoreSnapshot(fs.readFileSync('pre-show.json', 'utf8'));
+ * ```
+ */
+
+import type { BatchOptions, BatchResult, ButtonPosition, ButtonStyle } from './types';
+import { StreamDeckError } from './types';
+import { buttonStyleErrors } from './style';
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotButton {
+  position: ButtonPosition;
+  style: ButtonStyle;
+}
+
+export interface ButtonSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  name?: string;
+  createdAt: number;
+  buttons: SnapshotButton[];
+}
+
+export interface ExportSnapshotOptions {
+  name?: string;
+  pages?: number[]; // only include these pages (default: all cached pages)
+}
+
+export interface RestoreSnapshotOptions extends BatchOptions {
+  force?: boolean; // send every button, ignoring the cache (e.g. after a Companion restart)
+}
+
+export interface RestoreResult {
+  sent: number; // buttons with at least one property sent
+  unchanged: number; // buttons skipped because the cache already matched
+  batch: BatchResult;
+}
+
+/**
+ * Build a snapshot from button styles
+ */
+export function createSnapshot(buttons: SnapshotButton[], name?: string): ButtonSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    ...(name !== undefined ? { name } : {}),
+    createdAt: Date.now(),
+    buttons: buttons.map(({ position, style }) => ({
+      position: { page: position.page, row: position.row, column: position.column },
+      style: { ...style }
+    }))
+  };
+}
+
+/**
+ * Validate a snapshot object or its JSON text. Throws `INVALID_SNAPSHOT`
+ * describing the first problem found.
+ */
+export function parseSnapshot(input: unknown): ButtonSnapshot {
+  const invalid = (reason: string) => new StreamDeckError(`Invalid snapshot: ${reason}`, 'INVALID_SNAPSHOT', undefined, input);
+
+  let data: any = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw invalid('not valid JSON');
+    }
+  }
+
+  if (!data || typeof data !== 'object') throw invalid('expected an object');
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw invalid(`unsupported version ${JSON.stringify(data.version)} (expected ${SNAPSHOT_VERSION})`);
+  }
+  if (typeof data.createdAt !== 'number') throw invalid('createdAt must be a number');
+  if (data.name !== undefined && typeof data.name !== 'string') throw invalid('name must be a string');
+  if (!Array.isArray(data.buttons)) throw invalid('buttons must be an array');
+
+  const seen = new Set<string>();
+  data.buttons.forEach((button: any, index: number) => {
+    const where = `buttons[${index}]`;
+    const position = button?.position;
+    if (!position || !['page', 'row', 'column'].every(axis => Number.isInteger(position[axis]) && position[axis] >= 0)) {
+      throw invalid(`${where}.position must have non-negative integer page, row and column`);
+    }
+
+    const key = `${position.page}:${position.row}:${position.column}`;
+    if (seen.has(key)) throw invalid(`${where} duplicates button ${key}`);
+    seen.add(key);
+
+    if (!button.style || typeof button.style !== 'object') throw invalid(`${where}.style must be an object`);
+    const [styleError] = buttonStyleErrors(button.style);
+    if (styleError) throw invalid(`${where}.style: ${styleError}`);
+  });
+
+  return data as ButtonSnapshot;
+}
+
+/**
+ * The properties of each snapshot button that differ from the current state.
+ * Buttons that already match are left out.
+ */
+export function diffSnapshot(
+  snapshot: ButtonSnapshot,
+  current: (position: ButtonPosition) => ButtonStyle
+): SnapshotButton[] {
+  const changes: SnapshotButton[] = [];
+
+  for (const { position, style } of snapshot.buttons) {
+    const state = current(position);
+    const changed: ButtonStyle = {};
+    for (const [property, value] of Object.entries(style)) {
+      if (state[property as keyof ButtonStyle] !== value) {
+        Object.assign(changed, { [property]: value });
+      }
+    }
+    if (Object.keys(changed).length > 0) changes.push({ position, style: changed });
+  }
+
+  return changes;
+}
@@ -0,0 +1,85 @@
+/**
+ * Button style validation
+ *
+ * ## Overview
+ * Checks the format of each `ButtonStyle` property the way Companion's style
+ * endpoint expects it: strings for text and colors, a number or `'auto'` for
+ * size, a `data:image/png;base64` URL for `png64`, `'<h>:<v>'` alignments,
+ * and booleans for `textExpression` / `show_topbar` (which also takes
+ * `'default'`). Used by `updateButtonStyle()`, snapshots, chain documents and
+ * `isValidStyle()`. The `ButtonChain` setters apply stricter limits on top
+ * (hex colors, size 1-72, text up to 200 characters).
+ *
+ * ## Example
+ * ```ts
+ * buttonStyleErrors({ alignment: 'middle', size: 'big' });
+ * // ['alignment must be one of left:top, ...', "size must be a number or 'auto'"]
+ * ```
+ */
+
+import type { ButtonAlignment, ButtonStyle } from './types';
+
+export const BUTTON_STYLE_PROPERTIES: Array<keyof ButtonStyle> = [
+  'text',
+  'bgcolor',
+  'color',
+  'size',
+  'png64',
+  'alignment',
+  'pngalignment',
+  'textExpression',
+  'show_topbar'
+];
+
+export const BUTTON_ALIGNMENTS: ButtonAlignment[] = (['top', 'center', 'bottom'] as const).flatMap(vertical =>
+  (['left', 'center', 'right'] as const).map(horizontal => `${horizontal}:${vertical}` as ButtonAlignment)
+);
+
+const PNG_DATA_URL = /^data:image\/png;base64,[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Why a value is not valid for a style property, or undefined when it is
+ */
+export function styleError(property: string, value: unknown): string | undefined {
+  switch (property) {
+    case 'text':
+    case 'bgcolor':
+    case 'color':
+      return typeof value === 'string' ? undefined : `${property} must be a string`;
+    case 'size':
+      if (value === 'auto') return undefined;
+      return typeof value === 'number' && Number.isFinite(value) && value > 0
+        ? undefined
+        : `size must be a positive number or 'auto'`;
+    case 'png64':
+      if (typeof value !== 'string') return 'png64 must be a string';
+      return value === '' || PNG_DATA_URL.test(value)
+        ? undefined
+        : `png64 must be a data:image/png;base64 URL (or '' to remove the image)`;
+    case 'alignment':
+    case 'pngalignment':
+      return BUTTON_ALIGNMENTS.includes(value as ButtonAlignment)
+        ? undefined
+        : `${property} must be one of ${BUTTON_ALIGNMENTS.join(', ')}`;
+    case 'textExpression':
+      return typeof value === 'boolean' ? undefined : 'textExpression must be a boolean';
+    case 'show_topbar':
+      return typeof value === 'boolean' || value === 'default' ? undefined : `show_topbar must be a boolean or 'default'`;
+    default:
+      return `unknown property "${property}"`;
+  }
+}
+
+/**
+ * Every problem with a style object; empty when it is valid. Undefined
+ * properties are ignored.
+ */
+export function buttonStyleErrors(style: object): string[] {
+  const errors: string[] = [];
+  for (const [property, value] of Object.entries(style)) {
+    if (value === undefined) continue;
+    const error = styleError(property, value);
+    if (error) errors.push(error);
+  }
+  return errors;
+}
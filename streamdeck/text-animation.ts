@@ -0,0 +1,156 @@
+/**
+ * Text animations
+ *
+ * ## Overview
+ * Samplers behind the Animator's text effects. Companion keys only fit a few
+ * characters, so instead of cutting text off (`truncateText`) these animate
+ * the `text` property:
+ * - `marquee` scrolls a long string through a key, `width` characters at a time
+ * - `typewriter` reveals a string one character at a time
+ * - `counter` tweens a number from `from` to `to`, formatted with `formatNumber`
+ * - `ticker` (`Animator.createTicker()`) spreads one scrolling message across
+ *   a row of keys, built from one marquee per key
+ *
+ * Every other style property comes from the animation's original style, and
+ * like any animation they can be layered, paused, sought and placed on an
+ * `AnimationTimeline`.
+ *
+ * ## Example
+ * ```ts
+ * animator.createMarquee(pos, { bgcolor: '#000000' }, { text: 'BREAKING NEWS', width: 6 });
+ * animator.createCounter(pos, { size: 24 }, { from: 0, to: 1500, duration: 2000, easing: 'easeOutCubic' });
+ * animator.createTicker(row, { color: '#FFD700' }, { text: 'TEAM A WINS ROUND 12', width: 4 });
+ * ```
+ */
+import type { AnimationOptions, AnimationSampler } from './animator';
+import type { ButtonStyle } from './types';
+import { StreamDeckError } from './types';
+import { resolveEasing } from './easing';
+import type { Easing } from './easing';
+import { formatNumber } from './utils';
+
+type TextAnimationBase = Omit<AnimationOptions, 'flashColor' | 'intervals' | 'fromColor' | 'toColor' | 'saturation' | 'lightness'>;
+
+export interface MarqueeOptions extends TextAnimationBase {
+  text: string;
+  width?: number; // characters visible on the key (default 6)
+  speed?: number; // characters per second (default 4); ignored when `duration` is set
+  gap?: number; // spaces between the end of the text and its next pass (default 3)
+  offset?: number; // characters to start ahead; the ticker gives each key its slice this way
+  // loop defaults to true; a single pass ends where it started
+}
+
+export interface TypewriterOptions extends TextAnimationBase {
+  text: string;
+  cursor?: string; // shown after the typed characters until the text is complete (default '')
+  // duration defaults to 120 ms per character
+}
+
+export interface CounterOptions extends TextAnimationBase {
+  from: number;
+  to: number;
+  easing?: Easing; // default: 'linear'
+  decimals?: number; // default 0
+  maxDigits?: number; // passed to formatNumber (default 4)
+  prefix?: string;
+  suffix?: string;
+}
+
+export interface TickerOptions extends Omit<MarqueeOptions, 'offset'> {
+  // `width` is per key (default 5); the message scrolls through all keys in order
+}
+
+export type TextAnimationSpec =
+  | ({ type: 'marquee' } & MarqueeOptions)
+  | ({ type: 'typewriter' } & TypewriterOptions)
+  | ({ type: 'counter' } & CounterOptions);
+
+function invalid(reason: string, options: unknown): StreamDeckError {
+  return new StreamDeckError(`Invalid text animation: ${reason}`, 'INVALID_ANIMATION', undefined, options);
+}
+
+function positive(value: number | undefined, fallback: number, name: string, options: unknown): number {
+  const result = value ?? fallback;
+  if (!Number.isFinite(result) || result <= 0) throw invalid(`${name} must be a positive number, got ${value}`, options);
+  return result;
+}
+
+// 0..1 through the current run (wrapped when looping)
+function progress(elapsed: number, duration: number, loop: boolean): number {
+  return loop ? (elapsed % duration) / duration : Math.min(1, elapsed / duration);
+}
+
+/**
+ * Build the sampler for a text animation. Throws `INVALID_ANIMATION` for
+ * missing text, non-numeric counter bounds or non-positive sizes.
+ */
+export function createTextSampler(spec: TextAnimationSpec, originalStyle: ButtonStyle): AnimationSampler {
+  const withText = (text: string): ButtonStyle => ({ ...originalStyle, text });
+
+  switch (spec.type) {
+    case 'marquee': {
+      if (typeof spec.text !== 'string') throw invalid('marquee text must be a string', spec);
+      const chars = Array.from(spec.text);
+      const width = Math.round(positive(spec.width, 6, 'width', spec));
+      const gap = Math.max(0, Math.round(spec.gap ?? 3));
+      const loop = spec.loop ?? true;
+
+      // Short text that fits the key doesn't need to move
+      if (chars.length <= width && spec.offset === undefined) {
+        const duration = positive(spec.duration, 1000, 'duration', spec);
+        return { duration, loop, sample: () => withText(spec.text) };
+      }
+
+      const track = [...chars, ...Array(gap).fill(' ')];
+      const duration = spec.duration !== undefined
+        ? positive(spec.duration, 0, 'duration', spec)
+        : (track.length / positive(spec.speed, 4, 'speed', spec)) * 1000;
+      const offset = Math.round(spec.offset ?? 0);
+      return {
+        duration,
+        loop,
+        sample: elapsed => {
+          const shift = Math.floor(progress(elapsed, duration, loop) * track.length) + offset;
+          let text = '';
+          for (let i = 0; i < width; i++) text += track[(shift + i) % track.length];
+          return withText(text);
+        }
+      };
+    }
+
+    case 'typewriter': {
+      if (typeof spec.text !== 'string') throw invalid('typewriter text must be a string', spec);
+      const chars = Array.from(spec.text);
+      const duration = positive(spec.duration, Math.max(1, chars.length) * 120, 'duration', spec);
+      const loop = spec.loop ?? false;
+      const cursor = spec.cursor ?? '';
+      return {
+        duration,
+        loop,
+        sample: elapsed => {
+          const count = Math.floor(progress(elapsed, duration, loop) * chars.length);
+          return withText(chars.slice(0, count).join('') + (count < chars.length ? cursor : ''));
+        }
+      };
+    }
+
+    case 'counter': {
+      if (!Number.isFinite(spec.from) || !Number.isFinite(spec.to)) {
+        throw invalid(`counter needs numeric from/to, got ${spec.from} and ${spec.to}`, spec);
+      }
+      const duration = positive(spec.duration, 1000, 'duration', spec);
+      const loop = spec.loop ?? false;
+      const ease = resolveEasing(spec.easing);
+      const decimals = Math.max(0, Math.round(spec.decimals ?? 0));
+      return {
+        duration,
+        loop,
+        sample: elapsed => {
+          const value = spec.from + (spec.to - spec.from) * ease(progress(elapsed, duration, loop));
+          const rounded = Number(value.toFixed(decimals));
+          return withText(`${spec.prefix ?? ''}${formatNumber(rounded, spec.maxDigits)}${spec.suffix ?? ''}`);
+        }
+      };
+    }
+  }
+}
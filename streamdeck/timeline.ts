@@ -0,0 +1,307 @@
+/**
+ * Animation timeline
+ *
+ * ## Overview
+ * Schedules animations on many buttons at offsets from a shared start and
+ * plays them as one unit on an `Animator`. Each clip is an `AnimationSpec`
+ * (the same flash/fade/rainbow/keyframes options the animator takes) placed
+ * at a time in ms. The timeline computes every frame from its own clock, so
+ * it can be paused, sought, reversed and looped as a whole.
+ *
+ * When several clips cover the same button, the one that started last wins.
+ * Before a button's first clip starts, the button shows that clip's base
+ * style (sent only if the timeline already drew on the button, e.g. after
+ * seeking backwards).
+ *
+ * ## Example
+ * ```ts
+ * const row = generateButtonGrid(1, 1, 8);
+ * const timeline = new AnimationTimeline(animator, { loop: true })
+ *   .add(0, row[0], { type: 'fade', duration: 600, fromColor: '#000000', toColor: '#00AAFF' })
+ *   .stagger(0, row, 80, { type: 'flash', duration: 400, intervals: 1, flashColor: '#FFFFFF' }, { bgcolor: '#000000' })
+ *   .add(1000, row, { type: 'flash', duration: 500, intervals: 2, flashColor: '#FF0000' }, { bgcolor: '#000000' });
+ *
+ * timeline.play();
+ * timeline.pause();
+ * timeline.seek(500).reverse().play();
+ * ```
+ */
+import { createSampler } from './animator';
+import type { Animator, AnimationSampler, AnimationSpec, FrameSource } from './animator';
+import type { ButtonPosition, ButtonStyle } from './types';
+
+export interface TimelineOptions {
+  loop?: boolean; // start over at the end (or at 0 when reversed); default false
+}
+
+// One animation placed on the timeline
+export interface TimelineClip {
+  at: number; // ms from the start of the timeline
+  positions: ButtonPosition[];
+  animation: AnimationSpec;
+  style: ButtonStyle; // base style the animation starts from
+}
+
+interface ScheduledClip {
+  at: number;
+  style: ButtonStyle;
+  sampler: AnimationSampler;
+}
+
+// The clips of one button, sorted by start time
+interface Track {
+  position: ButtonPosition;
+  clips: ScheduledClip[];
+  lastSent?: string; // JSON of the last style sent
+}
+
+export class AnimationTimeline {
+  private clips: TimelineClip[] = [];
+  private tracks = new Map<string, Track>();
+  private loop: boolean;
+  private reversed = false;
+  private playing = false;
+  private time = 0; // timeline ms at `startedAt`
+  private startedAt = 0; // Date.now() when playback (re)started
+  private detach?: () => void;
+  private waiters: Array<() => void> = [];
+
+  constructor(private animator: Animator, options: TimelineOptions = {}) {
+    this.loop = options.loop ?? false;
+  }
+
+  // ==========================================
+  // BUILDING
+  // ==========================================
+
+  /**
+   * Start `animation` on every position at `at` ms. Throws
+   * `INVALID_KEYFRAMES` for malformed keyframe clips.
+   */
+  add(at: number, positions: ButtonPosition | ButtonPosition[], animation: AnimationSpec, style: ButtonStyle = {}): this {
+    if (!Number.isFinite(at) || at < 0) throw new RangeError(`Clip start must be a non-negative number of ms, got ${at}`);
+    const list = Array.isArray(positions) ? positions : [positions];
+    const scheduled: ScheduledClip = { at, style, sampler: createSampler(animation, style) };
+
+    for (const position of list) {
+      const key = positionKey(position);
+      let track = this.tracks.get(key);
+      if (!track) {
+        track = { position, clips: [] };
+        this.tracks.set(key, track);
+      }
+      // Keep clips sorted; clips starting at the same time keep insertion order
+      const index = track.clips.findIndex(clip => clip.at > at);
+      track.clips.splice(index === -1 ? track.clips.length : index, 0, scheduled);
+    }
+    this.clips.push({ at, positions: [...list], animation, style });
+    return this;
+  }
+
+  /**
+   * Start `animation` on each position in turn, `step` ms apart, e.g. a
+   * chase across a row
+   */
+  stagger(at: number, positions: ButtonPosition[], step: number, animation: AnimationSpec, style: ButtonStyle = {}): this {
+    positions.forEach((position, index) => this.add(at + index * step, position, animation, style));
+    return this;
+  }
+
+  getClips(): TimelineClip[] {
+    return this.clips.map(clip => ({ ...clip, positions: [...clip.positions] }));
+  }
+
+  /**
+   * End of the last clip in ms; Infinity when a clip loops forever
+   */
+  getDuration(): number {
+    let duration = 0;
+    for (const track of this.tracks.values()) {
+      for (const clip of track.clips) {
+        duration = Math.max(duration, clip.sampler.loop ? Infinity : clip.at + clip.sampler.duration);
+      }
+    }
+    return duration;
+  }
+
+  // ==========================================
+  // PLAYBACK
+  // ==========================================
+
+  /**
+   * Play from the current time. Resolves once playback stops: at the end
+   * (never when looping), or on `pause()`, `stop()` or `animator.stopAll()`.
+   * Playing a finished timeline starts it over.
+   */
+  play(): Promise<void> {
+    const done = new Promise<void>(resolve => this.waiters.push(resolve));
+    if (this.playing) return done;
+
+    const duration = this.getDuration();
+    if (!this.loop) {
+      if (!this.reversed && this.time >= duration) this.time = 0;
+      if (this.reversed && this.time <= 0 && Number.isFinite(duration)) this.time = duration;
+    }
+    this.playing = true;
+    this.startedAt = Date.now();
+    this.attach();
+    return done;
+  }
+
+  /**
+   * Hold the current frame
+   */
+  pause(): void {
+    if (!this.playing) return;
+    this.time = this.getTime();
+    this.playing = false;
+    this.settle();
+  }
+
+  /**
+   * Pause and rewind to the start. Buttons keep their current styles.
+   */
+  stop(): void {
+    this.playing = false;
+    this.time = 0;
+    this.detach?.();
+    this.detach = undefined;
+    this.settle();
+  }
+
+  /**
+   * Jump to `ms`. A paused timeline draws that frame once.
+   */
+  seek(ms: number): this {
+    const duration = this.getDuration();
+    this.time = Math.max(0, Number.isFinite(duration) ? Math.min(ms, duration) : ms);
+    this.startedAt = Date.now();
+    this.attach();
+    return this;
+  }
+
+  /**
+   * Flip the playback direction, keeping the current time
+   */
+  reverse(): this {
+    this.time = this.getTime();
+    this.startedAt = Date.now();
+    this.reversed = !this.reversed;
+    return this;
+  }
+
+  setLoop(loop: boolean): this {
+    this.time = this.getTime();
+    this.startedAt = Date.now();
+    this.loop = loop;
+    return this;
+  }
+
+  getTime(): number {
+    return this.playing ? this.timeAt(Date.now()).time : this.time;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  isReversed(): boolean {
+    return this.reversed;
+  }
+
+  // ==========================================
+  // FRAMES
+  // ==========================================
+
+  private attach() {
+    if (this.detach) return;
+    const source: FrameSource = {
+      frame: now => this.frame(now),
+      onDetach: () => {
+        if (this.detach !== detach) return;
+        this.detach = undefined;
+        if (this.playing) {
+          this.time = this.timeAt(Date.now()).time;
+          this.playing = false;
+        }
+        this.settle();
+      }
+    };
+    const detach = this.animator.attach(source);
+    this.detach = detach;
+  }
+
+  private frame(now: number): Array<{ position: ButtonPosition; style: ButtonStyle }> {
+    const { time, ended } = this.playing ? this.timeAt(now) : { time: this.time, ended: false };
+    const frames = this.render(time);
+
+    if (ended) {
+      this.time = time;
+      this.playing = false;
+    }
+    if (!this.playing) {
+      // Paused, sought or finished: this was the last frame for now
+      this.detach?.();
+      this.detach = undefined;
+      if (ended) this.settle();
+    }
+    return frames;
+  }
+
+  /**
+   * Timeline time at a wall-clock time, wrapped when looping
+   */
+  private timeAt(now: number): { time: number; ended: boolean } {
+    const duration = this.getDuration();
+    const elapsed = now - this.startedAt;
+    const raw = this.time + (this.reversed ? -elapsed : elapsed);
+
+    if (this.loop && Number.isFinite(duration) && duration > 0) {
+      return { time: ((raw % duration) + duration) % duration, ended: false };
+    }
+    if (!this.reversed && raw >= duration) return { time: duration, ended: true };
+    if (this.reversed && raw <= 0) return { time: 0, ended: true };
+    return { time: raw, ended: false };
+  }
+
+  private render(time: number): Array<{ position: ButtonPosition; style: ButtonStyle }> {
+    const frames: Array<{ position: ButtonPosition; style: ButtonStyle }> = [];
+
+    for (const track of this.tracks.values()) {
+      let clip: ScheduledClip | undefined;
+      for (const candidate of track.clips) {
+        if (candidate.at > time) break;
+        clip = candidate;
+      }
+
+      let style: ButtonStyle;
+      if (clip) {
+        try {
+          style = clip.sampler.sample(time - clip.at);
+        } catch (error) {
+          continue; // skip this button for this frame
+        }
+      } else {
+        // Not started yet: put the base style back if we already drew here
+        if (track.lastSent === undefined || Object.keys(track.clips[0].style).length === 0) continue;
+        style = { ...track.clips[0].style };
+      }
+
+      const key = JSON.stringify(style);
+      if (track.lastSent === key) continue;
+      track.lastSent = key;
+      frames.push({ position: track.position, style });
+    }
+    return frames;
+  }
+
+  private settle() {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+function positionKey(position: ButtonPosition): string {
+  return `${position.page}/${position.row}/${position.column}`;
+}
@@ -0,0 +1,237 @@
+/**
+ * Transactions
+ *
+ * ## Overview
+ * `client.transaction(tx => ...)` groups several `ButtonChain`s and
+ * `SystemChain`s into one unit. Before anything is sent, the cached style of
+ * every button the transaction touches and the current value of every custom
+ * variable it sets are recorded. Steps then run in order; if one fails, the
+ * recorded styles and variables are restored and the transaction rejects with
+ * `TRANSACTION_FAILED`, whose `response` is a `TransactionFailure` naming the
+ * failed step.
+ *
+ * Presses, rotations, steps and rescans have no previous state and are not
+ * undone. Style properties the cache knew nothing about, and variables whose
+ * value could not be read, are reported in `unrestored`.
+ *
+ * ## Example
+ * ```ts
+ * try {
+ *   await client.transaction(tx => {
+ *     tx.button(live).text('LIVE').bgcolor('#FF0000');
+ *     tx.button(timer).text('00:00');
+ *     tx.system().setVar('show_state', 'live');
+ *   });
+ * } catch (error) {
+ *   if (error.code === 'TRANSACTION_FAILED') console.warn(error.response.step);
+ * }
+ * ```
+ */
+
+import type { ButtonPosition, ButtonStyle, ApplyOptions, ChainOperation } from './types';
+import { StreamDeckError } from './types';
+import { delay, isAbortError, throwIfAborted } from './abort';
+import type { ButtonChain, SystemChain, StreamDeckClient } from './client';
+
+export interface TransactionStep {
+  index: number; // position in the whole transaction
+  chain: number; // index of the chain that queued the step
+  position?: ButtonPosition; // set for button chain steps
+  operation: ChainOperation;
+}
+
+export interface TransactionResult {
+  steps: TransactionStep[];
+  duration: number;
+}
+
+// `response` of a TRANSACTION_FAILED error
+export interface TransactionFailure {
+  step: TransactionStep;
+  error: Error;
+  completed: TransactionStep[]; // steps that succeeded before the failure
+  rolledBack: boolean; // every recorded style and variable was restored
+  unrestored: string[]; // e.g. '1:0:0 text', 'variable show_state'
+  rollbackErrors: Error[];
+}
+
+/**
+ * Collects the chains of a transaction. Chains are created through the
+ * transaction so it can see every step before any of them runs.
+ */
+export class Transaction {
+  private chains: Array<ButtonChain<StreamDeckClient> | SystemChain<StreamDeckClient>> = [];
+
+  constructor(private client: StreamDeckClient) {}
+
+  button(position: ButtonPosition): ButtonChain<StreamDeckClient> {
+    const chain = this.client.button(position);
+    this.chains.push(chain);
+    return chain;
+  }
+
+  system(): SystemChain<StreamDeckClient> {
+    const chain = this.client.system();
+    this.chains.push(chain);
+    return chain;
+  }
+
+  getChains(): Array<ButtonChain<StreamDeckClient> | SystemChain<StreamDeckClient>> {
+    return [...this.chains];
+  }
+}
+
+// State recorded before the transaction runs
+interface PriorState {
+  buttons: Map<string, { position: ButtonPosition; style: ButtonStyle; touched: Set<keyof ButtonStyle> }>;
+  variables: Map<string, string | undefined>;
+}
+
+/**
+ * Run the chains of a transaction, rolling back on the first failure
+ */
+export async function runTransaction(client: StreamDeckClient, transaction: Transaction, options: ApplyOptions = {}): Promise<TransactionResult> {
+  const { signal } = options;
+  const startTime = Date.now();
+  throwIfAborted(signal);
+
+  const chains = transaction.getChains();
+  const steps: TransactionStep[] = [];
+  for (const [chainIndex, chain] of chains.entries()) {
+    const position = 'getPosition' in chain ? chain.getPosition() : undefined;
+    for (const operation of await chain.resolveOperations()) {
+      steps.push({ index: steps.length, chain: chainIndex, position, operation });
+    }
+  }
+
+  const prior = await recordPriorState(client, steps);
+  const completed: TransactionStep[] = [];
+
+  for (const step of steps) {
+    try {
+      throwIfAborted(signal);
+      await chains[step.chain].runOperation(step.operation, signal);
+      if (step.operation.type !== 'style') await delay(10, signal);
+      completed.push(step);
+    } catch (error) {
+      const touched = [...completed, step];
+      const rollback = await rollBack(client, prior, touched);
+      if (isAbortError(error)) throw error;
+
+      const failure: TransactionFailure = {
+        step,
+        error: error as Error,
+        completed,
+        rolledBack: rollback.errors.length === 0 && rollback.unrestored.length === 0,
+        unrestored: rollback.unrestored,
+        rollbackErrors: rollback.errors
+      };
+      throw new StreamDeckError(
+        `Transaction failed at step ${step.index + 1}/${steps.length} (${describeStep(step)}): ${(error as Error).message}`,
+        'TRANSACTION_FAILED',
+        undefined,
+        failure
+      );
+    }
+  }
+
+  return { steps, duration: Date.now() - startTime };
+}
+
+/**
+ * Short label for a step, e.g. 'style 1/0/0' or 'variable show_state'
+ */
+export function describeStep(step: TransactionStep): string {
+  const { operation, position } = step;
+  const at = position ? ` ${position.page}/${position.row}/${position.column}` : '';
+  switch (operation.type) {
+    case 'action': return `${operation.action}${at}`;
+    case 'fade': return `${operation.fade}${at}`;
+    case 'variable': return `variable ${operation.name}`;
+    default: return `${operation.type}${at}`;
+  }
+}
+
+async function recordPriorState(client: StreamDeckClient, steps: TransactionStep[]): Promise<PriorState> {
+  const prior: PriorState = { buttons: new Map(), variables: new Map() };
+
+  for (const { operation, position } of steps) {
+    if ((operation.type === 'style' || operation.type === 'fade') && position) {
+      const key = `${position.page}:${position.row}:${position.column}`;
+      let entry = prior.buttons.get(key);
+      if (!entry) {
+        entry = { position, style: client.getButtonState(position), touched: new Set() };
+        prior.buttons.set(key, entry);
+      }
+      const properties = operation.type === 'style' ? Object.keys(operation.style) as Array<keyof ButtonStyle> : ['bgcolor' as const];
+      properties.forEach(property => entry!.touched.add(property));
+    }
+
+    if (operation.type === 'variable' && !prior.variables.has(operation.name)) {
+      let value = client.getCachedVariable(operation.name);
+      if (value === undefined) {
+        try {
+          value = await client.getCustomVariable(operation.name, { priority: 'high' });
+        } catch {
+          // Unknown previous value; reported as unrestored if a rollback happens
+        }
+      }
+      prior.variables.set(operation.name, value);
+    }
+  }
+
+  return prior;
+}
+
+/**
+ * Restore the recorded state of everything the given steps touched, most
+ * recently touched first
+ */
+async function rollBack(
+  client: StreamDeckClient,
+  prior: PriorState,
+  steps: TransactionStep[]
+): Promise<{ unrestored: string[]; errors: Error[] }> {
+  const unrestored: string[] = [];
+  const errors: Error[] = [];
+  const buttons = new Set<string>();
+  const variables = new Set<string>();
+
+  for (const { operation, position } of [...steps].reverse()) {
+    if ((operation.type === 'style' || operation.type === 'fade') && position) {
+      buttons.add(`${position.page}:${position.row}:${position.column}`);
+    } else if (operation.type === 'variable') {
+      variables.add(operation.name);
+    }
+  }
+
+  for (const key of buttons) {
+    const { position, style, touched } = prior.buttons.get(key)!;
+    const restore: ButtonStyle = {};
+    touched.forEach(property => {
+      if (style[property] !== undefined) Object.assign(restore, { [property]: style[property] });
+      else unrestored.push(`${key} ${property}`);
+    });
+    if (Object.keys(restore).length === 0) continue;
+    try {
+      await client.updateButtonStyleBody(position, restore, { priority: 'high' });
+    } catch (error) {
+      errors.push(error as Error);
+    }
+  }
+
+  for (const name of variables) {
+    const value = prior.variables.get(name);
+    if (value === undefined) {
+      unrestored.push(`variable ${name}`);
+      continue;
+    }
+    try {
+      await client.setCustomVariable(name, value, { priority: 'high' });
+    } catch (error) {
+      errors.push(error as Error);
+    }
+  }
+
+  return { unrestored, errors };
+}
@@ -0,0 +1,89 @@
+/**
+ * HTTP transports
+ *
+ * ## Overview
+ * `StreamDeckClient` never calls `fetch` directly; every button, style,
+ * variable and surface request goes through a `Transport`. The default
+ * `FetchTransport` uses the global `fetch`. Pass your own implementation via
+ * `StreamDeckConfig.transport` to use undici agents, a proxy or a test double.
+ *
+ * ## Example
+ * ```ts
+ * const transport: Transport = {
+ *   async request(req) {
+ *     console.log(req.method, req.url);
+ *     return 'ok';
+ *   }
+ * };
+ * const client = new StreamDeckClient({ baseUrl: 'http://localhost:8000', transport });
+ * ```
+ */
+import type { Transport, TransportRequest } from './types';
+import { StreamDeckError } from './types';
+import { abortError, throwIfAborted } from './abort';
+
+/**
+ * Default transport built on the global `fetch` API.
+ * Sends JSON bodies and parses JSON responses, falling back to plain text.
+ */
+export class FetchTransport implements Transport {
+  async request(request: TransportRequest): Promise<any> {
+    throwIfAborted(request.signal);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeout);
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body ? JSON.stringify(request.body) : undefined,
+        signal: controller.signal
+      });
+
+      // Clone response to read body multiple times if needed
+      const responseClone = response.clone();
+
+      if (!response.ok) {
+        const errorText = await responseClone.text().catch(() => null);
+        throw new StreamDeckError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          'HTTP_ERROR',
+          response.status,
+          errorText
+        );
+      }
+
+      // Try to parse JSON response, but don't fail if it's not JSON
+      try {
+        return await response.json();
+      } catch {
+        // Use the cloned response for text parsing
+        return await responseClone.text();
+      }
+    } catch (error) {
+      // Distinguish caller cancellation from the timeout abort
+      if (request.signal?.aborted) throw abortError(request.signal);
+      if (timedOut) {
+        throw new StreamDeckError(`Request timed out after ${request.timeout}ms`, 'TIMEOUT', undefined, error);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * Create the default fetch-based transport
+ */
+export function createFetchTransport(): Transport {
+  return new FetchTransport();
+}
@@ -14,12 +14,20 @@ export interface ButtonPosition {
   column: number;
 }
 
+// Horizontal:vertical placement of button text or image, e.g. 'center:top'
+export type ButtonAlignment = `${'left' | 'center' | 'right'}:${'top' | 'center' | 'bottom'}`;
+
 // Style configuration for buttons
 export interface ButtonStyle {
   text?: string;
   bgcolor?: string; // HEX color code
   color?: string;   // HEX color code for text
-  size?: number;    // Text size in pixels
+  size?: number | 'auto'; // Text size in pixels, or 'auto' to fit the button
+  png64?: string;   // PNG image as a data:image/png;base64 URL; '' removes the image
+  alignment?: ButtonAlignment; // Text alignment (default: 'center:center')
+  pngalignment?: ButtonAlignment; // Image alignment (default: 'center:center')
+  textExpression?: boolean; // Evaluate `text` as a Companion expression
+  show_topbar?: boolean | 'default'; // Show the page/button top bar; 'default' follows Companion's setting
 }
 
 // Custom variable operations
@@ -44,6 +52,22 @@ export interface ApiResponse {
 // Button action types
 export type ButtonAction = 'press' | 'down' | 'up' | 'rotate-left' | 'rotate-right';
 
+// A single HTTP request handed to a Transport by the client
+export interface TransportRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+  timeout: number; // ms; reject with code 'TIMEOUT' when it passes (the client retries it)
+  signal?: AbortSignal; // caller cancellation; transports should abort the request when it fires
+}
+
+// Pluggable HTTP layer used by StreamDeckClient. Implementations perform one
+// attempt per call; retries and backoff stay in the client.
+export interface Transport {
+  request(request: TransportRequest): Promise<any>;
+}
+
 // Configuration for StreamDeck client
 export interface StreamDeckConfig {
   baseUrl: string;
@@ -51,18 +75,246 @@ export interface StreamDeckConfig {
   retries?: number;
   defaultHeaders?: Record<string, string>;
   enableCaching?: boolean; // Enable/disable button state caching to prevent duplicate requests
+  cacheTTL?: number; // ms a cached button state is trusted before updates are sent again (default: no expiry)
   nonBlockingAnimations?: boolean; // Use fire-and-forget requests for animations (default: true)
+  transport?: Transport; // Custom HTTP layer (default: FetchTransport using global fetch)
+  requestsPerSecond?: number; // Request budget shared by all calls (default: unlimited)
+  maxConcurrentRequests?: number; // Requests in flight at once (default: 8)
+  circuitBreaker?: CircuitBreakerConfig | false; // Fail fast while Companion is down (default: enabled)
+  dryRun?: boolean; // Record requests in getPlan() instead of sending them (default: false)
+  historySize?: number; // Style and variable changes kept for undo() (default: 50, 0 disables)
 }
 
-// Event types for StreamDeck operations
-export interface StreamDeckEvent {
-  type: 'button' | 'style' | 'variable' | 'system';
-  action: string;
-  position?: ButtonPosition;
-  data?: any;
+// Circuit breaker settings for StreamDeckClient
+export interface CircuitBreakerConfig {
+  failureThreshold?: number; // consecutive failed requests before opening (default: 5)
+  resetTimeout?: number; // ms to stay open before letting a probe through (default: 10000)
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Circuit breaker state as reported by testConnection() and `system` events
+export interface CircuitStatus {
+  state: CircuitState;
+  failures: number; // consecutive failures counted so far
+  openedAt?: number;
+  nextAttemptAt?: number; // when an open circuit lets the next probe through
+}
+
+// Scheduling lane for a request. 'high' is used for button actions, 'normal'
+// for styles/variables and 'animation' for animation frames; a queued
+// animation frame is dropped when a newer one for the same key arrives.
+export type RequestPriority = 'high' | 'normal' | 'animation';
+
+// Per-call options accepted by ControlSurface methods
+export interface RequestOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal; // cancel the call: stops retries and removes it from the queue (code 'ABORTED')
+  history?: boolean; // record the change for undo() (default: true, except 'animation' priority)
+}
+
+// A style or custom variable change kept for undo()/redo(). `before` holds
+// the previous value of each changed property, or undefined when the client
+// didn't know it.
+export type HistoryEntry =
+  | { type: 'style'; position: ButtonPosition; before: ButtonStyle; after: ButtonStyle; timestamp: number }
+  | { type: 'variable'; name: string; before?: string; after: string; timestamp: number };
+
+// Outcome of undo()/redo()
+export interface HistoryResult {
+  entry: HistoryEntry;
+  unrestored: string[]; // properties/variables whose previous value was unknown, e.g. 'text', 'variable score'
+}
+
+// Options for ButtonChain/SystemChain `apply()`
+export interface ApplyOptions {
+  signal?: AbortSignal; // cancel remaining steps and queued requests (code 'ABORTED')
+}
+
+// Condition checked when a queued fade runs
+export type FadeCondition = boolean | (() => boolean) | (() => Promise<boolean>);
+
+export type FadeOperation =
+  | { fade: 'fadeTo'; color: string; duration: number; condition?: FadeCondition }
+  | { fade: 'fadeToBlack'; duration: number; condition?: FadeCondition }
+  | { fade: 'fadeSequence'; sequence: Array<{ color: string; duration: number }>; condition?: FadeCondition }
+  | { fade: 'fadeOutIn'; color: string; fadeOutDuration: number; fadeInDuration: number; condition?: FadeCondition };
+
+// One step queued on a ButtonChain or SystemChain. A ButtonChain's style
+// changes run as a single leading 'style' step.
+export type ChainOperation =
+  | { type: 'style'; style: ButtonStyle }
+  | { type: 'action'; action: ButtonAction }
+  | { type: 'step'; step: number }
+  | { type: 'variable'; name: string; value: string }
+  | { type: 'rescan' }
+  | ({ type: 'fade' } & FadeOperation);
+
+// Snapshot of the client's request scheduler (also sent as `system` events)
+export interface SchedulerStats {
+  queued: Record<RequestPriority, number>;
+  active: number; // requests currently in flight
+  completed: number;
+  dropped: number; // stale animation frames discarded
+}
+
+// Button cache counters, reported by StreamDeckClient.getCacheStats()
+export interface CacheStats {
+  entries: number;
+  hits: number; // style updates skipped because the cache already matched
+  misses: number; // style updates sent because the cache differed or had no entry
+  expired: number; // entries dropped after their TTL ran out
+  hitRate: number; // hits / (hits + misses), 0 when nothing was checked yet
+}
+
+// Events are a discriminated union on `type` (and `action`). StreamDeckClient,
+// RemoteClient and FailoverClient all emit this shape.
+
+interface BaseEvent {
   timestamp: number;
 }
 
+// press / down / up / rotate-left / rotate-right
+export interface ButtonActionEvent extends BaseEvent {
+  type: 'button';
+  action: ButtonAction;
+  position: ButtonPosition;
+}
+
+export interface ButtonStepEvent extends BaseEvent {
+  type: 'button';
+  action: 'step';
+  position: ButtonPosition;
+  data: { step: number };
+}
+
+export interface StyleUpdateEvent extends BaseEvent {
+  type: 'style';
+  action: 'update';
+  position: ButtonPosition;
+  data: ButtonStyle; // the properties that were sent
+}
+
+export interface VariableSetEvent extends BaseEvent {
+  type: 'variable';
+  action: 'set';
+  data: CustomVariable;
+}
+
+// Surface page changes (TCP/UDP only)
+export interface SurfacePageEvent extends BaseEvent {
+  type: 'surface';
+  action: 'page-set' | 'page-up' | 'page-down';
+  data: { surfaceId: string; page?: number };
+}
+
+export interface RescanEvent extends BaseEvent {
+  type: 'system';
+  action: 'rescan';
+}
+
+// Request scheduler queue depth changed / stale animation frame dropped
+export interface SchedulerEvent extends BaseEvent {
+  type: 'system';
+  action: 'queue' | 'drop';
+  data: SchedulerStats;
+}
+
+export interface CircuitEvent extends BaseEvent {
+  type: 'system';
+  action: 'circuit';
+  data: CircuitStatus & { previous: CircuitState };
+}
+
+export interface ConnectionStateEvent extends BaseEvent {
+  type: 'connection';
+  action: 'connected' | 'disconnected';
+}
+
+export interface ConnectionErrorEvent extends BaseEvent {
+  type: 'connection';
+  action: 'error';
+  data: Error;
+}
+
+export interface ReconnectEvent extends BaseEvent {
+  type: 'connection';
+  action: 'reconnecting';
+  data: { attempt: number };
+}
+
+export interface ReconnectResultEvent extends BaseEvent {
+  type: 'connection';
+  action: 'reconnected' | 'reconnect-failed';
+  data: { attempts: number };
+}
+
+// FailoverClient switched transports
+export interface FailoverEvent extends BaseEvent {
+  type: 'connection';
+  action: 'failover' | 'restored';
+  data: { from: 'http' | 'remote'; to: 'http' | 'remote'; error?: Error };
+}
+
+// Raw command written to the TCP/UDP socket
+export interface CommandSentEvent extends BaseEvent {
+  type: 'command';
+  action: 'sent';
+  data: string;
+}
+
+// Raw line received from Companion over TCP/UDP
+export interface MessageReceivedEvent extends BaseEvent {
+  type: 'message';
+  action: 'received';
+  data: string;
+  remote?: { address: string; port: number };
+}
+
+export type StreamDeckEvent =
+  | ButtonActionEvent
+  | ButtonStepEvent
+  | StyleUpdateEvent
+  | VariableSetEvent
+  | SurfacePageEvent
+  | RescanEvent
+  | SchedulerEvent
+  | CircuitEvent
+  | ConnectionStateEvent
+  | ConnectionErrorEvent
+  | ReconnectEvent
+  | ReconnectResultEvent
+  | FailoverEvent
+  | CommandSentEvent
+  | MessageReceivedEvent;
+
+export type StreamDeckEventType = StreamDeckEvent['type'];
+
+type EventKeysOf<E> = E extends StreamDeckEvent ? E['type'] | `${E['type']}:${E['action']}` : never;
+
+// Subscription key: an event type ('style') or 'type:action' ('variable:set')
+export type StreamDeckEventKey = EventKeysOf<StreamDeckEvent>;
+
+type EventsMatching<E, K> = E extends StreamDeckEvent ? (K extends EventKeysOf<E> ? E : never) : never;
+
+// Event type selected by a subscription key, e.g. EventOf<'variable:set'> = VariableSetEvent
+export type EventOf<K extends StreamDeckEventKey> = EventsMatching<StreamDeckEvent, K>;
+
+// Subscription filter. Every given field must match; `page`/`position` only
+// match events that carry a position.
+export interface EventFilter<K extends StreamDeckEventKey = StreamDeckEventKey> {
+  type?: K | K[];
+  action?: string | string[];
+  page?: number | number[];
+  position?: Partial<ButtonPosition>;
+}
+
+// Options for `events()` async iteration
+export interface EventStreamOptions {
+  signal?: AbortSignal; // ends the iteration when fired
+  bufferSize?: number; // events kept while the consumer is busy; oldest dropped first (default: 100)
+}
+
 // Batch operation for multiple button updates
 export interface BatchOperation {
   position: ButtonPosition;
@@ -70,6 +322,55 @@ export interface BatchOperation {
   data?: ButtonStyle | { step: number };
 }
 
+// Options for executeBatch
+export interface BatchOptions {
+  concurrency?: number; // keys processed in parallel (default: 4); operations on one key always run in order
+  coalesce?: boolean; // merge consecutive style writes to the same key (default: true)
+  priority?: RequestPriority; // priority for every request in the batch (default: per-method default)
+  signal?: AbortSignal; // cancel the batch; operations not yet sent are reported as rejected with 'ABORTED'
+}
+
+// Outcome of a single batch operation. 'coalesced' operations were merged
+// into a later style write to the same key (see `mergedInto`) that succeeded;
+// when that write fails they are 'rejected' with its error.
+export interface BatchOperationResult {
+  index: number;
+  operation: BatchOperation;
+  status: 'fulfilled' | 'rejected' | 'coalesced';
+  error?: Error;
+  mergedInto?: number;
+}
+
+// Per-operation report returned by executeBatch
+export interface BatchResult {
+  results: BatchOperationResult[];
+  succeeded: number;
+  failed: number;
+  coalesced: number;
+  duration: number; // ms
+}
+
+// Operations shared by every way of driving Companion (HTTP client, TCP/UDP
+// remote client, ...). Chains, the Animator, presets and utilities accept any
+// ControlSurface so they run over either transport.
+// Surfaces without a request scheduler may ignore `RequestOptions`.
+export interface ControlSurface {
+  pressButton(position: ButtonPosition, options?: RequestOptions): Promise<void>;
+  pressButtonDown(position: ButtonPosition, options?: RequestOptions): Promise<void>;
+  releaseButton(position: ButtonPosition, options?: RequestOptions): Promise<void>;
+  rotateLeft(position: ButtonPosition, options?: RequestOptions): Promise<void>;
+  rotateRight(position: ButtonPosition, options?: RequestOptions): Promise<void>;
+  setButtonStep(position: ButtonPosition, step: number, options?: RequestOptions): Promise<void>;
+  updateButtonStyle(position: ButtonPosition, style: ButtonStyle, options?: RequestOptions): Promise<void>;
+  updateButtonStyleBody(position: ButtonPosition, style: ButtonStyle, options?: RequestOptions): Promise<void>;
+  setButtonText(position: ButtonPosition, text: string, options?: RequestOptions): Promise<void>;
+  setButtonTextColor(position: ButtonPosition, color: string, options?: RequestOptions): Promise<void>;
+  setButtonBackgroundColor(position: ButtonPosition, color: string, options?: RequestOptions): Promise<void>;
+  setCustomVariable(name: string, value: string, options?: RequestOptions): Promise<void>;
+  rescanSurfaces(options?: RequestOptions): Promise<void>;
+  executeBatch(operations: BatchOperation[], options?: BatchOptions): Promise<BatchResult>;
+}
+
 // Error types
 export class StreamDeckError extends Error {
   constructor(
@@ -87,6 +388,7 @@ export class StreamDeckError extends Error {
 export interface ConnectionStatus {
   connected: boolean;
   lastPing?: number;
+  circuit?: CircuitStatus;
   version?: string;
   surfaces?: number;
 }
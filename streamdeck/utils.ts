@@ -12,7 +12,9 @@
  */
 
 import { StreamDeckClient } from './client';
-import type { ButtonPosition, ButtonStyle } from './types';
+import type { ButtonPosition, ButtonStyle, ControlSurface } from './types';
+import { StreamDeckError } from './types';
+import { buttonStyleErrors } from './style';
 
 /**
  * Generate all button positions for a given page and grid size
@@ -148,7 +150,8 @@ export function getContrastingTextColor(backgroundColor: string): string {
 // =============================================================================
 
 /**
- * Truncate text to fit button display
+ * Truncate text to fit button display. To show all of a long string, scroll
+ * it with `animator.createMarquee()` instead.
  */
 export function truncateText(text: string, maxLength: number = 8): string {
   if (text.length <= maxLength) return text;
@@ -245,7 +248,7 @@ export function createButtonStyle(
  * Flash a button by alternating colors
  */
 export async function flashButton(
-  client: StreamDeckClient,
+  client: ControlSurface,
   position: ButtonPosition,
   originalStyle: ButtonStyle,
   flashColor: string,
@@ -268,7 +271,7 @@ export async function flashButton(
  * Animate a countdown on a button
  */
 export async function animateCountdown(
-  client: StreamDeckClient,
+  client: ControlSurface,
   position: ButtonPosition,
   style: ButtonStyle,
   startValue: number,
@@ -313,6 +316,68 @@ export function getLayoutPositions(
   return generateButtonGrid(page, rows, columns);
 }
 
+export type LayoutName = keyof typeof LAYOUTS;
+
+// Rows or columns of a region: one index, a list of indexes, or '*' for all
+export type GridAxis = number | number[] | '*';
+
+// A rectangular part of a page. Omitted or '*' axes span the whole layout.
+export interface GridRegion {
+  page?: number; // default: 1
+  rows?: GridAxis;
+  columns?: GridAxis;
+  layout?: LayoutName; // grid size used for '*' (default: STREAMDECK_ORIGINAL)
+}
+
+// What `client.buttons()` accepts
+export type ButtonSelector = ButtonPosition | ButtonPosition[] | GridRegion | LayoutName;
+
+/**
+ * Resolve a selector to button positions (deduplicated, in selector order)
+ *
+ * @example
+ * resolveButtonSelector({ page: 2, rows: [0, 1], columns: '*' }); // 10 keys on a 3x5 deck
+ * resolveButtonSelector('STREAMDECK_MINI'); // all 6 keys of page 1
+ */
+export function resolveButtonSelector(selector: ButtonSelector): ButtonPosition[] {
+  const invalid = (reason: string) => new StreamDeckError(`Invalid button selector: ${reason}`, 'INVALID_SELECTOR', undefined, selector);
+  let positions: ButtonPosition[];
+
+  if (typeof selector === 'string') {
+    if (!(selector in LAYOUTS)) throw invalid(`unknown layout "${selector}"`);
+    positions = getLayoutPositions(selector);
+  } else if (Array.isArray(selector)) {
+    positions = selector;
+  } else if ('row' in selector && 'column' in selector) {
+    positions = [selector];
+  } else {
+    const layout = selector.layout ?? 'STREAMDECK_ORIGINAL';
+    if (!(layout in LAYOUTS)) throw invalid(`unknown layout "${layout}"`);
+    const page = selector.page ?? 1;
+    const axis = (value: GridAxis | undefined, size: number, name: string): number[] => {
+      if (value === undefined || value === '*') return Array.from({ length: size }, (_, i) => i);
+      const indexes = Array.isArray(value) ? value : [value];
+      indexes.forEach(index => {
+        if (!Number.isInteger(index) || index < 0 || index >= size) {
+          throw invalid(`${name} ${index} is outside the ${layout} grid`);
+        }
+      });
+      return indexes;
+    };
+    const rows = axis(selector.rows, LAYOUTS[layout].rows, 'row');
+    const columns = axis(selector.columns, LAYOUTS[layout].columns, 'column');
+    positions = rows.flatMap(row => columns.map(column => ({ page, row, column })));
+  }
+
+  const seen = new Set<string>();
+  return positions.filter(({ page, row, column }) => {
+    const key = `${page}:${row}:${column}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 // =============================================================================
 // VALIDATION UTILITIES
 // =============================================================================
@@ -342,13 +407,17 @@ export function isValidStyle(style: ButtonStyle): { valid: boolean; errors: stri
     errors.push('Invalid text color format');
   }
   
-  if (style.size && (style.size < 8 || style.size > 72)) {
+  if (typeof style.size === 'number' && (style.size < 8 || style.size > 72)) {
     errors.push('Text size must be between 8 and 72');
   }
   
   if (style.text && style.text.length > 20) {
     errors.push('Text is too long (max 20 characters recommended)');
   }
+
+  // Format checks for the remaining properties (size 'auto', png64, alignments, ...)
+  const { text, bgcolor, color, size, ...rest } = style;
+  errors.push(...buttonStyleErrors(typeof size === 'number' ? rest : { ...rest, size }));
   
   return {
     valid: errors.length === 0,
@@ -364,7 +433,7 @@ export function isValidStyle(style: ButtonStyle): { valid: boolean; errors: stri
  * Create a debug grid on StreamDeck showing button positions
  */
 export async function createDebugGrid(
-  client: StreamDeckClient,
+  client: ControlSurface,
   page: number,
   rows: number,
   columns: number
@@ -389,7 +458,7 @@ export async function createDebugGrid(
  * Clear all buttons on a page
  */
 export async function clearPage(
-  client: StreamDeckClient,
+  client: ControlSurface,
   page: number,
   rows: number,
   columns: number
@@ -0,0 +1,81 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamDeckClient, createFakeCompanion } from '../streamdeck';
+import type { BatchOperation, FakeCompanion } from '../streamdeck';
+
+const first = { page: 1, row: 0, column: 0 };
+const second = { page: 1, row: 0, column: 1 };
+
+describe('executeBatch', () => {
+  let fake: FakeCompanion;
+  let client: StreamDeckClient;
+
+  before(async () => {
+    fake = await createFakeCompanion();
+  });
+
+  after(() => fake.close());
+
+  const setup = () => {
+    fake.reset();
+    client = new StreamDeckClient({ baseUrl: fake.url, retries: 1, circuitBreaker: false, enableCaching: false });
+  };
+
+  const styleRequests = () => fake.requests.filter(request => request.path.endsWith('/style'));
+
+  it('merges consecutive style writes to one key into a single request', async () => {
+    setup();
+    const operations: BatchOperation[] = [
+      { position: first, action: 'style', data: { text: 'A', bgcolor: '#FF0000' } },
+      { position: second, action: 'press' },
+      { position: first, action: 'style', data: { text: 'B' } },
+      { position: first, action: 'style', data: { color: '#FFFFFF' } }
+    ];
+
+    const result = await client.executeBatch(operations);
+
+    assert.equal(styleRequests().length, 1);
+    assert.deepEqual(fake.state.getStyle(first), { text: 'B', bgcolor: '#FF0000', color: '#FFFFFF' });
+    assert.deepEqual(result.results.map(r => r.status), ['coalesced', 'fulfilled', 'coalesced', 'fulfilled']);
+    assert.deepEqual(result.results.map(r => r.mergedInto), [3, undefined, 3, undefined]);
+    assert.deepEqual([result.succeeded, result.failed, result.coalesced], [2, 0, 2]);
+  });
+
+  it('does not merge style writes across another operation on the same key', async () => {
+    setup();
+    const result = await client.executeBatch([
+      { position: first, action: 'style', data: { text: 'A' } },
+      { position: first, action: 'press' },
+      { position: first, action: 'style', data: { text: 'B' } }
+    ]);
+
+    assert.equal(styleRequests().length, 2);
+    assert.equal(result.coalesced, 0);
+  });
+
+  it('sends every write when coalescing is off', async () => {
+    setup();
+    const result = await client.executeBatch([
+      { position: first, action: 'style', data: { text: 'A' } },
+      { position: first, action: 'style', data: { text: 'B' } }
+    ], { coalesce: false });
+
+    assert.equal(styleRequests().length, 2);
+    assert.equal(result.succeeded, 2);
+  });
+
+  it('rejects writes merged into a write that fails', async () => {
+    setup();
+    fake.injectError({ path: '/api/location/1/0/0/style', status: 500 });
+
+    const result = await client.executeBatch([
+      { position: first, action: 'style', data: { text: 'A' } },
+      { position: first, action: 'style', data: { text: 'B' } },
+      { position: second, action: 'press' }
+    ]);
+
+    assert.deepEqual(result.results.map(r => r.status), ['rejected', 'rejected', 'fulfilled']);
+    assert.equal(result.results[0].error, result.results[1].error);
+    assert.deepEqual([result.succeeded, result.failed, result.coalesced], [1, 2, 0]);
+  });
+});
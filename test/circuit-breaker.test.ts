@@ -0,0 +1,52 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamDeckClient, createFakeCompanion } from '../streamdeck';
+import type { FakeCompanion } from '../streamdeck';
+
+const position = { page: 1, row: 0, column: 0 };
+
+describe('circuit breaker', () => {
+  let fake: FakeCompanion;
+
+  before(async () => {
+    fake = await createFakeCompanion();
+  });
+
+  after(() => fake.close());
+
+  it('opens when Companion stops answering', async () => {
+    fake.reset();
+    fake.setLatency(300);
+    const client = new StreamDeckClient({
+      baseUrl: fake.url,
+      timeout: 100,
+      retries: 1,
+      circuitBreaker: { failureThreshold: 1, resetTimeout: 60000 }
+    });
+
+    await assert.rejects(client.pressButton(position), { code: 'REQUEST_FAILED' });
+    assert.equal(client.getCircuitStatus().state, 'open');
+
+    await assert.rejects(client.pressButton(position), { code: 'CIRCUIT_OPEN' });
+    assert.equal(fake.requests.length, 1);
+  });
+
+  it('opens when requests fail with server errors', async () => {
+    fake.reset();
+    fake.injectError({ status: 503 });
+    const client = new StreamDeckClient({ baseUrl: fake.url, retries: 1, circuitBreaker: { failureThreshold: 2 } });
+
+    await assert.rejects(client.pressButton(position), { code: 'REQUEST_FAILED' });
+    assert.deepEqual(client.getCircuitStatus(), { state: 'closed', failures: 1 });
+    await assert.rejects(client.pressButton(position), { code: 'REQUEST_FAILED' });
+    assert.equal(client.getCircuitStatus().state, 'open');
+  });
+
+  it('stays closed when Companion answers with a client error', async () => {
+    fake.reset();
+    const client = new StreamDeckClient({ baseUrl: fake.url, retries: 1, circuitBreaker: { failureThreshold: 1 } });
+
+    await assert.rejects(client.getCustomVariable('missing'), { code: 'REQUEST_FAILED' });
+    assert.deepEqual(client.getCircuitStatus(), { state: 'closed', failures: 0 });
+  });
+});
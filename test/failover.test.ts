@@ -0,0 +1,96 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FailoverClient, RemoteClient, StreamDeckClient, createFakeCompanion, createFakeRemoteServer } from '../streamdeck';
+import type { FakeCompanion, FakeRemoteServer } from '../streamdeck';
+
+const position = { page: 1, row: 0, column: 0 };
+
+describe('FailoverClient', () => {
+  let fake: FakeCompanion;
+  let server: FakeRemoteServer;
+  let remote: RemoteClient;
+  let deck: FailoverClient;
+
+  before(async () => {
+    fake = await createFakeCompanion();
+    server = await createFakeRemoteServer({ protocols: ['tcp'], state: fake.state });
+  });
+
+  after(async () => {
+    await server.close();
+    await fake.close();
+  });
+
+  const setup = () => {
+    fake.reset();
+    server.reset();
+    const http = new StreamDeckClient({ baseUrl: fake.url, timeout: 100, retries: 1, circuitBreaker: false });
+    remote = new RemoteClient({ port: server.port, protocol: 'tcp', acknowledge: true });
+    deck = new FailoverClient({ http, remote, healthCheckInterval: 60000 });
+  };
+
+  const teardown = async () => {
+    deck.stop();
+    await remote.disconnect();
+  };
+
+  it('fails over to TCP when the HTTP API stalls', async () => {
+    setup();
+    try {
+      fake.setLatency(300);
+
+      assert.deepEqual(await deck.start(), { http: false, remote: true });
+      assert.equal(deck.getActiveTransport(), 'remote');
+
+      await deck.pressButton(position);
+      assert.equal(server.commands.length, 1);
+      assert.equal(fake.state.actions.length, 1);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it('switches over when a call times out on HTTP', async () => {
+    setup();
+    try {
+      await deck.start();
+      assert.equal(deck.getActiveTransport(), 'http');
+
+      fake.setLatency(300);
+      await deck.pressButton(position);
+      assert.equal(deck.getActiveTransport(), 'remote');
+      assert.equal(server.commands.length, 1);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it('does not re-send a call the caller aborted', async () => {
+    setup();
+    try {
+      await deck.start();
+      fake.setLatency(50);
+      const controller = new AbortController();
+      const pending = deck.pressButton(position, { signal: controller.signal });
+      controller.abort();
+
+      await assert.rejects(pending, { code: 'ABORTED' });
+      assert.equal(server.commands.length, 0);
+      assert.equal(deck.getActiveTransport(), 'http');
+    } finally {
+      await teardown();
+    }
+  });
+
+  it('does not fail over on validation errors', async () => {
+    setup();
+    try {
+      await deck.start();
+      await assert.rejects(deck.updateButtonStyle(position, { size: -1 }), { code: 'INVALID_STYLE' });
+      assert.equal(server.commands.length, 0);
+      assert.equal(deck.getActiveTransport(), 'http');
+    } finally {
+      await teardown();
+    }
+  });
+});
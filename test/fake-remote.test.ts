@@ -0,0 +1,20 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakeRemoteServer } from '../streamdeck';
+import type { FakeRemoteServer } from '../streamdeck';
+
+describe('fake remote server', () => {
+  let server: FakeRemoteServer;
+
+  before(async () => {
+    server = await createFakeRemoteServer({ protocols: ['tcp'] });
+  });
+
+  after(() => server.close());
+
+  it('rejects pending waitForCommands() calls on reset()', async () => {
+    const waiting = server.waitForCommands(1, 5000);
+    server.reset();
+    await assert.rejects(waiting, { code: 'SERVER_RESET' });
+  });
+});
@@ -0,0 +1,120 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RemoteClient, createFakeRemoteServer } from '../streamdeck';
+import type { FakeRemoteServer } from '../streamdeck';
+
+describe('RemoteClient acknowledged commands', () => {
+  let server: FakeRemoteServer;
+  let remote: RemoteClient;
+
+  before(async () => {
+    server = await createFakeRemoteServer({ protocols: ['tcp'] });
+  });
+
+  after(() => server.close());
+
+  const connect = async () => {
+    server.reset();
+    remote = new RemoteClient({ port: server.port, protocol: 'tcp', acknowledge: true, commandTimeout: 1000, reconnectAttempts: 0 });
+    await remote.connect();
+  };
+
+  it('matches each reply to its own command', async () => {
+    await connect();
+    try {
+      server.setLatency(20);
+      const results = await Promise.allSettled([
+        remote.sendCommand('LOCATION 1/0/0 PRESS'),
+        remote.sendCommand('LOCATION 1/0/0 BOGUS'),
+        remote.sendCommand('LOCATION 1/0/1 PRESS')
+      ]);
+      assert.deepEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'fulfilled']);
+      assert.equal((results[1] as PromiseRejectedResult).reason.code, 'COMMAND_REJECTED');
+    } finally {
+      await remote.disconnect();
+    }
+  });
+
+  it('keeps replies aligned when unacknowledged commands are mixed in', async () => {
+    await connect();
+    try {
+      await remote.sendCommand('LOCATION 1/0/0 PRESS', { acknowledge: false });
+      await assert.rejects(remote.sendCommand('LOCATION 1/0/0 BOGUS'), { code: 'COMMAND_REJECTED' });
+      await remote.sendCommand('LOCATION 1/0/1 PRESS');
+      assert.equal(server.commands.length, 3);
+    } finally {
+      await remote.disconnect();
+    }
+  });
+
+  it('rejects with COMMAND_TIMEOUT when no reply arrives in time', async () => {
+    await connect();
+    try {
+      server.setLatency(200);
+      await assert.rejects(remote.sendCommand('LOCATION 1/0/0 PRESS', { timeout: 0 }), { code: 'COMMAND_TIMEOUT' });
+      await assert.rejects(remote.sendCommand('LOCATION 1/0/0 PRESS', { timeout: 50 }), { code: 'COMMAND_TIMEOUT' });
+    } finally {
+      await remote.disconnect();
+    }
+  });
+
+  it('rejects with CONNECTION_CLOSED when the connection drops before the reply', async () => {
+    await connect();
+    try {
+      server.setLatency(200);
+      const pending = remote.sendCommand('LOCATION 1/0/0 PRESS');
+      await server.waitForCommands(1);
+      server.dropConnections();
+      await assert.rejects(pending, { code: 'CONNECTION_CLOSED' });
+    } finally {
+      await remote.disconnect();
+    }
+  });
+
+  it('rejects with CONNECTION_CLOSED when disconnected before the write completes', async () => {
+    await connect();
+    const pending = remote.sendCommand('LOCATION 1/0/0 PRESS');
+    await remote.disconnect();
+    await assert.rejects(pending, { code: 'CONNECTION_CLOSED' });
+  });
+
+  // The socket is private; failing its writes is the only way to reach these paths
+  const failWrites = (delay: number) => {
+    const socket = (remote as any).socket;
+    const write = socket.write;
+    socket.write = (_data: string, callback: (error?: Error) => void) => {
+      setTimeout(() => callback(new Error('write EPIPE')), delay);
+      return true;
+    };
+    return () => { socket.write = write; };
+  };
+
+  it('rejects with COMMAND_TIMEOUT when the ack times out before the write completes', async () => {
+    await connect();
+    try {
+      const restore = failWrites(50);
+      await assert.rejects(remote.sendCommand('LOCATION 1/0/0 PRESS', { timeout: 10 }), { code: 'COMMAND_TIMEOUT' });
+      await new Promise(resolve => setTimeout(resolve, 60));
+      restore();
+    } finally {
+      await remote.disconnect();
+    }
+  });
+
+  it('drops the reply slot of the command that failed to send', async () => {
+    await connect();
+    try {
+      server.setLatency(50);
+      const restore = failWrites(20);
+      const failed = remote.sendCommand('LOCATION 1/0/0 PRESS', { timeout: 500 });
+      restore();
+      // Same command string, still in flight when the first write fails
+      const sent = remote.sendCommand('LOCATION 1/0/0 PRESS', { timeout: 500 });
+
+      await assert.rejects(failed, { code: 'SEND_FAILED' });
+      await sent;
+    } finally {
+      await remote.disconnect();
+    }
+  });
+});
@@ -0,0 +1,39 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamDeckClient, StreamDeckError, createFakeCompanion } from '../streamdeck';
+import type { FakeCompanion } from '../streamdeck';
+
+const position = { page: 1, row: 0, column: 0 };
+
+describe('request timeouts', () => {
+  let fake: FakeCompanion;
+
+  before(async () => {
+    fake = await createFakeCompanion({ latency: 300 });
+  });
+
+  after(() => fake.close());
+
+  it('retries a timed-out request and rejects with REQUEST_FAILED', async () => {
+    fake.reset();
+    const client = new StreamDeckClient({ baseUrl: fake.url, timeout: 100, retries: 3, circuitBreaker: false });
+
+    await assert.rejects(client.pressButton(position), (error: unknown) => {
+      assert.ok(error instanceof StreamDeckError);
+      assert.equal(error.code, 'REQUEST_FAILED');
+      assert.equal((error.response as StreamDeckError).code, 'TIMEOUT');
+      return true;
+    });
+    assert.equal(fake.requests.length, 3);
+  });
+
+  it('rejects with ABORTED and does not retry when the caller aborts', async () => {
+    fake.reset();
+    const client = new StreamDeckClient({ baseUrl: fake.url, timeout: 1000, retries: 3, circuitBreaker: false });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(client.pressButton(position, { signal: controller.signal }), { code: 'ABORTED' });
+    assert.equal(fake.requests.length, 1);
+  });
+});